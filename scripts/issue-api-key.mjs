@@ -0,0 +1,23 @@
+// Issue an API key: prints the key to hand out once, and the entry to add
+// to API_KEYS. Only the hash is stored, so a lost key has to be reissued.
+//
+//   npm run issue-api-key -- <id> [scope ...]
+//
+// Scopes are estimate (default) and admin.
+import { createHash, randomBytes } from 'crypto';
+
+const SCOPES = ['estimate', 'admin'];
+
+const [id, ...requested] = process.argv.slice(2);
+const scopes = requested.length ? requested : ['estimate'];
+
+if (!id || scopes.some(scope => !SCOPES.includes(scope))) {
+  console.error(`Usage: npm run issue-api-key -- <id> [${SCOPES.join('|')} ...]`);
+  process.exit(1);
+}
+
+const key = `cal_${randomBytes(32).toString('base64url')}`;
+const hash = createHash('sha256').update(key).digest('hex');
+
+console.log(`API key for ${id} (shown once):\n\n  ${key}\n`);
+console.log(`Add to API_KEYS:\n\n  ${JSON.stringify({ id, hash, scopes })}`);
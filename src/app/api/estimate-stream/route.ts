@@ -0,0 +1,5 @@
+import { streamEstimateHandler } from '@/lib/v1/stream';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by POST /api/v1/estimates/stream, which this forwards to
+export const POST = deprecatedRoute('/api/v1/estimates/stream', streamEstimateHandler);
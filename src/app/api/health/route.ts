@@ -0,0 +1,3 @@
+import { healthHandler } from '@/lib/v1/health';
+
+export const GET = healthHandler;
@@ -0,0 +1,8 @@
+import { getJobHandler } from '@/lib/v1/jobs';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by GET /api/v1/jobs/{id}, which this forwards to
+export const GET = deprecatedRoute(
+  request => new URL(request.url).pathname.replace(/^\/api\/jobs\//, '/api/v1/jobs/'),
+  getJobHandler
+);
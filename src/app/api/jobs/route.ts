@@ -0,0 +1,5 @@
+import { createJobHandler } from '@/lib/v1/jobs';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by POST /api/v1/jobs, which this forwards to
+export const POST = deprecatedRoute('/api/v1/jobs', createJobHandler);
@@ -0,0 +1,3 @@
+import { readinessHandler } from '@/lib/v1/health';
+
+export const GET = readinessHandler;
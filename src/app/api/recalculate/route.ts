@@ -0,0 +1,5 @@
+import { recalculateHandler } from '@/lib/v1/estimates';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by POST /api/v1/estimates/recalculate, which this forwards to
+export const POST = deprecatedRoute('/api/v1/estimates/recalculate', recalculateHandler);
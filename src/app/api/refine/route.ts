@@ -0,0 +1,5 @@
+import { refineHandler } from '@/lib/v1/estimates';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by POST /api/v1/estimates/refine, which this forwards to
+export const POST = deprecatedRoute('/api/v1/estimates/refine', refineHandler);
@@ -0,0 +1,5 @@
+import { createSessionHandler } from '@/lib/v1/session';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by POST /api/v1/session, which this forwards to
+export const POST = deprecatedRoute('/api/v1/session', createSessionHandler);
@@ -0,0 +1,5 @@
+import { usageReportHandler } from '@/lib/v1/usage';
+import { deprecatedRoute } from '@/lib/v1/http';
+
+// Superseded by GET /api/v1/usage, which this forwards to
+export const GET = deprecatedRoute('/api/v1/usage', usageReportHandler);
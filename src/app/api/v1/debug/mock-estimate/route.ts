@@ -0,0 +1,3 @@
+import { mockEstimateHandler } from '@/lib/v1/debug';
+
+export const POST = mockEstimateHandler;
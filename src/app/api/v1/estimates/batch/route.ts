@@ -0,0 +1,3 @@
+import { batchEstimateHandler } from '@/lib/v1/estimates';
+
+export const POST = batchEstimateHandler;
@@ -0,0 +1,3 @@
+import { imageEstimateHandler } from '@/lib/v1/estimates';
+
+export const POST = imageEstimateHandler();
@@ -0,0 +1,3 @@
+import { recalculateHandler } from '@/lib/v1/estimates';
+
+export const POST = recalculateHandler;
@@ -0,0 +1,3 @@
+import { recipeEstimateHandler } from '@/lib/v1/estimates';
+
+export const POST = recipeEstimateHandler;
@@ -0,0 +1,3 @@
+import { refineHandler } from '@/lib/v1/estimates';
+
+export const POST = refineHandler;
@@ -0,0 +1,3 @@
+import { streamEstimateHandler } from '@/lib/v1/stream';
+
+export const POST = streamEstimateHandler;
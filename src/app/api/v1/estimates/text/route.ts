@@ -0,0 +1,3 @@
+import { textEstimateHandler } from '@/lib/v1/estimates';
+
+export const POST = textEstimateHandler;
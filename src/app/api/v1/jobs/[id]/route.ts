@@ -0,0 +1,3 @@
+import { getJobHandler } from '@/lib/v1/jobs';
+
+export const GET = getJobHandler;
@@ -0,0 +1,3 @@
+import { createJobHandler } from '@/lib/v1/jobs';
+
+export const POST = createJobHandler;
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/v1/openapi';
+
+// The document only changes with a deploy, so it is built once
+let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+/**
+ * The OpenAPI 3 document describing /api/v1. Public, so tools can fetch it
+ * without a key.
+ */
+export async function GET() {
+  document ??= buildOpenApiDocument();
+  return NextResponse.json(document, {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
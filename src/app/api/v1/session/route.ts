@@ -0,0 +1,3 @@
+import { createSessionHandler } from '@/lib/v1/session';
+
+export const POST = createSessionHandler;
@@ -0,0 +1,3 @@
+import { usageReportHandler } from '@/lib/v1/usage';
+
+export const GET = usageReportHandler;
@@ -0,0 +1,40 @@
+import { ALLERGENS, ALLERGEN_LABELS } from '@/lib/allergens';
+import { Allergen, FoodItem } from '@/lib/types';
+import { AlertTriangleIcon } from './icons';
+
+interface AllergenAlertProps {
+  foodItems: FoodItem[];
+  watchlist: Allergen[];
+  className?: string;
+}
+
+export function AllergenAlert({ foodItems, watchlist, className = '' }: AllergenAlertProps) {
+  const found = ALLERGENS
+    .filter(allergen => watchlist.includes(allergen))
+    .map(allergen => ({
+      allergen,
+      items: foodItems.filter(item => item.allergens?.includes(allergen)).map(item => item.name),
+    }))
+    .filter(({ items }) => items.length > 0);
+
+  if (!found.length) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-red-50 border-2 border-red-300 text-red-800 p-4 rounded-md flex items-start text-left ${className}`} role="alert">
+      <AlertTriangleIcon className="h-5 w-5 text-red-600 mr-2 mt-0.5 flex-shrink-0" />
+      <div>
+        <p className="font-semibold">Contains allergens on your watchlist</p>
+        <ul className="mt-1 text-sm">
+          {found.map(({ allergen, items }) => (
+            <li key={allergen}>
+              <span className="font-medium">{ALLERGEN_LABELS[allergen]}:</span> {items.join(', ')}
+            </li>
+          ))}
+        </ul>
+        <p className="mt-2 text-xs text-red-700">Detected from the AI estimate. Always check with the restaurant or label.</p>
+      </div>
+    </div>
+  );
+}
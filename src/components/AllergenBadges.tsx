@@ -0,0 +1,30 @@
+import { ALLERGEN_LABELS } from '@/lib/allergens';
+import { Allergen } from '@/lib/types';
+
+interface AllergenBadgesProps {
+  allergens?: Allergen[];
+  watchlist: Allergen[];
+}
+
+export function AllergenBadges({ allergens, watchlist }: AllergenBadgesProps) {
+  if (!allergens?.length) {
+    return null;
+  }
+
+  return (
+    <span className="block mt-1">
+      {allergens.map(allergen => (
+        <span
+          key={allergen}
+          className={`mr-1 inline-block rounded px-1.5 py-0.5 text-xs ${
+            watchlist.includes(allergen)
+              ? 'bg-red-600 text-white font-semibold'
+              : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {ALLERGEN_LABELS[allergen]}
+        </span>
+      ))}
+    </span>
+  );
+}
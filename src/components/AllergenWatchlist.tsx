@@ -0,0 +1,38 @@
+'use client';
+
+import { ALLERGENS, ALLERGEN_LABELS } from '@/lib/allergens';
+import { Allergen } from '@/lib/types';
+
+interface AllergenWatchlistProps {
+  watchlist: Allergen[];
+  onChange: (watchlist: Allergen[]) => void;
+}
+
+export function AllergenWatchlist({ watchlist, onChange }: AllergenWatchlistProps) {
+  const toggle = (allergen: Allergen) => {
+    onChange(watchlist.includes(allergen)
+      ? watchlist.filter(watched => watched !== allergen)
+      : ALLERGENS.filter(known => known === allergen || watchlist.includes(known)));
+  };
+
+  return (
+    <details className="mt-4 text-sm text-gray-600">
+      <summary className="cursor-pointer">
+        Allergen watchlist{watchlist.length > 0 && ` (${watchlist.map(allergen => ALLERGEN_LABELS[allergen]).join(', ')})`}
+      </summary>
+      <p className="mt-2 text-xs text-gray-500">Results warn you when a food likely contains these.</p>
+      <div className="mt-2 flex flex-wrap gap-3">
+        {ALLERGENS.map(allergen => (
+          <label key={allergen} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={watchlist.includes(allergen)}
+              onChange={() => toggle(allergen)}
+            />
+            {ALLERGEN_LABELS[allergen]}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
@@ -2,14 +2,40 @@
 
 import { useState, useEffect } from 'react';
 import { ImageUploader } from './ImageUploader';
+import TextInput from './TextInput';
+import { RecipeInput } from './RecipeInput';
+import CalorieResult from './CalorieResult';
 import { ResultsDisplay } from './ResultsDisplay';
-import { estimateCalories, testIosEndpoint } from '@/lib/api';
-import { CalorieEstimation } from '@/lib/types';
-import { formatErrorMessage } from '@/lib/error';
+import {
+  estimateCalories,
+  estimateCaloriesFromText,
+  estimateRecipe,
+  estimateWithJob,
+  refineEstimation,
+  resumeEstimationJob,
+  streamEstimation,
+  supportsStreaming,
+} from '@/lib/api';
+import {
+  Allergen,
+  CalorieEstimation,
+  ClarifyingAnswer,
+  EstimationEvent,
+  EstimationJob,
+  EstimationStage,
+  JobStatus,
+  PartialFoodItem,
+  ScaleReference,
+} from '@/lib/types';
+import { loadWatchlist, saveWatchlist } from '@/lib/allergen-watchlist';
+import { loadPendingJob } from '@/lib/pending-job';
+import { ErrorDescription, describeError } from '@/lib/error-messages';
 import { debug } from '@/lib/debug';
-import { AlertTriangleIcon, LoaderIcon } from '@/components/icons';
-import { ApiError } from '@/lib/error';
+import { AlertTriangleIcon, CameraIcon, LoaderIcon } from '@/components/icons';
 import { ResultDisplay } from './ResultDisplay';
+import { ClarifyingQuestions } from './ClarifyingQuestions';
+import { AllergenWatchlist } from './AllergenWatchlist';
+import { EstimationProgress } from './EstimationProgress';
 
 // Safe browser detection utilities
 const isBrowser = typeof window !== 'undefined';
@@ -17,14 +43,83 @@ const getUserAgent = () => isBrowser ? navigator.userAgent : '';
 const isMobileDevice = isBrowser && /iPhone|iPad|iPod|Android/i.test(getUserAgent());
 const isIOSDevice = isBrowser && /iPhone|iPad|iPod/i.test(getUserAgent());
 
+// How the user describes their meal
+type InputMode = 'photo' | 'text' | 'recipe';
+
+// Independent estimates behind a calorie range
+const RANGE_SAMPLES = 3;
+
+// How a photo was sent: as a background job, streamed, or in one request
+type PhotoPath = 'job' | 'stream' | 'direct';
+
+const PHOTO_PATH_NOTES: Record<PhotoPath, string> = {
+  job: 'This photo was estimated in the background on the server.',
+  stream: 'This photo was estimated with live progress from the server.',
+  direct: 'This photo was estimated in a single request to the server.',
+};
+
 export function CalorieEstimator() {
+  const [mode, setMode] = useState<InputMode>('photo');
+  const [showRange, setShowRange] = useState(false);
+  const [watchlist, setWatchlist] = useState<Allergen[]>([]);
   const [base64Image, setBase64Image] = useState<string | null>(null);
+  const [reference, setReference] = useState<ScaleReference | undefined>(undefined);
+  const [description, setDescription] = useState<string | null>(null);
+  const [recipe, setRecipe] = useState<{ ingredients: string; servings: number } | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
   const [results, setResults] = useState<CalorieEstimation | null>(null);
+  // Clarifying questions are shown between the preliminary estimate and the result
+  const [askingQuestions, setAskingQuestions] = useState(false);
+  // Latest streamed stage and the items identified so far
+  const [progress, setProgress] = useState<{ stage: EstimationStage; items: PartialFoodItem[] } | null>(null);
+  // Status of the background job behind a mobile estimate
+  const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [photoPath, setPhotoPath] = useState<PhotoPath | null>(null);
   const [networkInfo, setNetworkInfo] = useState<string>('');
   const [retryCount, setRetryCount] = useState(0);
 
+  // Restore the allergen watchlist saved on this device
+  useEffect(() => {
+    setWatchlist(loadWatchlist());
+  }, []);
+
+  // Collect an estimate that was still running when the page was last left
+  useEffect(() => {
+    if (!loadPendingJob()) {
+      return;
+    }
+    let cancelled = false;
+    const resume = async () => {
+      try {
+        setLoading(true);
+        setPhotoPath('job');
+        const results = await resumeEstimationJob(handleJobStatus);
+        if (!cancelled && results) {
+          showResults(results);
+        } else if (!cancelled) {
+          setLoading(false);
+        }
+      } catch (error) {
+        console.error('Error resuming estimation job:', error);
+        if (!cancelled) {
+          handleEstimationError(error);
+        }
+      } finally {
+        setJobStatus(null);
+      }
+    };
+    resume();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleWatchlistChange = (updated: Allergen[]) => {
+    setWatchlist(updated);
+    saveWatchlist(updated);
+  };
+
   // Get network info on mount
   useEffect(() => {
     if (isBrowser) {
@@ -51,10 +146,11 @@ export function CalorieEstimator() {
     }
   }, []);
 
-  const handleImageCapture = async (imageData: string) => {
+  const handleImageCapture = async (imageData: string, imageReference?: ScaleReference) => {
     try {
       console.log('Image capture handler triggered');
       setBase64Image(imageData);
+      setReference(imageReference);
       setLoading(true);
       setError(null);
       setResults(null);
@@ -63,39 +159,148 @@ export function CalorieEstimator() {
       const sizeMB = (imageData.length * 0.75) / (1024 * 1024);
       console.log(`Processing image, approx size: ${sizeMB.toFixed(2)} MB`);
       
-      // Use the estimateCalories function which now uses the test endpoint internally
-      console.log('Starting calorie estimation with test endpoint');
-      const results = await estimateCalories(imageData);
+      const samples = showRange ? RANGE_SAMPLES : undefined;
+      let results: CalorieEstimation;
+      if (isMobileDevice) {
+        // A background job survives dropped connections and page reloads
+        console.log('Starting calorie estimation as a background job');
+        setPhotoPath('job');
+        results = await estimateWithJob(imageData, { samples, reference: imageReference }, handleJobStatus);
+      } else if (supportsStreaming()) {
+        console.log('Starting streamed calorie estimation');
+        setPhotoPath('stream');
+        setProgress(null);
+        results = await streamEstimation(imageData, { samples, reference: imageReference }, handleStreamEvent);
+      } else {
+        // Older browsers can't read a streamed body, so wait for the whole answer
+        console.log('Starting calorie estimation');
+        setPhotoPath('direct');
+        results = await estimateCalories(imageData, samples, imageReference);
+      }
       console.log('Estimation complete:', results);
       
-      setResults(results);
-      setLoading(false);
+      setProgress(null);
+      setJobStatus(null);
+      showResults(results);
     } catch (error) {
       console.error('Error in handleImageCapture:', error);
+      setProgress(null);
+      setJobStatus(null);
+      handleEstimationError(error);
+    }
+  };
+
+  const handleJobStatus = (job: EstimationJob) => {
+    setJobStatus(job.status);
+  };
+
+  const handleStreamEvent = (event: EstimationEvent) => {
+    if (event.stage === 'result' || event.stage === 'error') {
+      return;
+    }
+    setProgress(prev => ({
+      stage: event.stage,
+      // A re-asked model call starts its item list over
+      items: event.stage === 'partial_items'
+        ? event.items
+        : event.stage === 'model_started' ? [] : prev?.items ?? [],
+    }));
+  };
+
+  const handleTextSubmit = async (text: string) => {
+    try {
+      setDescription(text);
+      setLoading(true);
+      setError(null);
+      setResults(null);
       
-      if (error instanceof ApiError) {
-        // For network errors on mobile, provide specific guidance
-        if (isMobileDevice && (error.message.includes('connect') || error.message.includes('network') || error.message.includes('timeout'))) {
-          setError(`Mobile connectivity issue: ${error.message}. Try using WiFi or a better connection.`);
-        } else {
-          setError(error.message);
-        }
-      } else {
-        setError('An unexpected error occurred. Please try again.');
-      }
+      console.log('Starting calorie estimation from description');
+      const results = await estimateCaloriesFromText(text, showRange ? RANGE_SAMPLES : undefined);
+      console.log('Estimation complete:', results);
+      
+      showResults(results);
+    } catch (error) {
+      console.error('Error in handleTextSubmit:', error);
+      handleEstimationError(error);
+    }
+  };
+
+  const handleRecipeSubmit = async (ingredients: string, servings: number) => {
+    try {
+      setRecipe({ ingredients, servings });
+      setLoading(true);
+      setError(null);
+      setResults(null);
+      
+      console.log('Starting recipe estimation for', servings, 'servings');
+      const results = await estimateRecipe(ingredients, servings);
+      console.log('Estimation complete:', results);
       
-      setLoading(false);
+      showResults(results);
+    } catch (error) {
+      console.error('Error in handleRecipeSubmit:', error);
+      handleEstimationError(error);
     }
   };
 
+  const showResults = (results: CalorieEstimation) => {
+    setResults(results);
+    setAskingQuestions(Boolean(results.clarifyingQuestions?.length));
+    setLoading(false);
+  };
+
+  const handleAnswers = async (answers: ClarifyingAnswer[]) => {
+    if (!results) {
+      return;
+    }
+    
+    try {
+      setLoading(true);
+      setError(null);
+      
+      console.log('Refining estimation with', answers.length, 'answers');
+      const refined = await refineEstimation(results, answers);
+      console.log('Refinement complete:', refined);
+      
+      showResults(refined);
+    } catch (error) {
+      console.error('Error in handleAnswers:', error);
+      handleEstimationError(error);
+    }
+  };
+
+  const handleEstimationError = (error: unknown) => {
+    setError(describeError(error));
+    setLoading(false);
+  };
+
   const handleRetry = () => {
-    if (base64Image) {
+    if (mode === 'text' && description) {
+      setRetryCount(prev => prev + 1);
+      setError(null);
+      handleTextSubmit(description);
+    } else if (mode === 'recipe' && recipe) {
       setRetryCount(prev => prev + 1);
       setError(null);
-      handleImageCapture(base64Image);
+      handleRecipeSubmit(recipe.ingredients, recipe.servings);
+    } else if (base64Image) {
+      setRetryCount(prev => prev + 1);
+      setError(null);
+      handleImageCapture(base64Image, reference);
     }
   };
 
+  const handleReset = () => {
+    setBase64Image(null);
+    setReference(undefined);
+    setProgress(null);
+    setDescription(null);
+    setRecipe(null);
+    setResults(null);
+    setAskingQuestions(false);
+    setRetryCount(0);
+  };
+
   return (
     <div className="w-full max-w-2xl mx-auto p-4">
       <h1 className="text-3xl font-bold text-center mb-6">AI Calorie Estimator</h1>
@@ -104,61 +309,164 @@ export function CalorieEstimator() {
         <div className="bg-red-50 border border-red-200 text-red-700 p-4 mb-6 rounded-md flex items-start">
           <AlertTriangleIcon className="h-5 w-5 text-red-500 mr-2 mt-0.5" />
           <div>
-            <div className="font-semibold">{error}</div>
-            {isMobileDevice && (
+            <div className="font-semibold">{error.message}</div>
+            {isMobileDevice && error.checkConnection && (
               <div className="mt-2 text-sm">
                 <p className="font-medium">Tip: Mobile networks can be unreliable. Try using WiFi if available.</p>
                 <div className="text-xs mt-1">{networkInfo}</div>
-                <button 
-                  onClick={handleRetry} 
-                  className="bg-red-100 hover:bg-red-200 text-red-800 px-3 py-1 rounded mt-2 text-sm"
-                >
-                  Retry Analysis ({retryCount})
-                </button>
               </div>
             )}
+            {error.retry === 'now' && (
+              <button 
+                onClick={handleRetry} 
+                className="bg-red-100 hover:bg-red-200 text-red-800 px-3 py-1 rounded mt-2 text-sm"
+              >
+                Retry Analysis ({retryCount})
+              </button>
+            )}
+            {error.requestId && (
+              <div className="text-xs mt-2 text-red-500">Reference: {error.requestId}</div>
+            )}
+          </div>
+        </div>
+      )}
+      
+      {!results && (
+        <div className="flex justify-center mb-4">
+          <div className="inline-flex rounded-md border border-gray-200 bg-white p-1" role="tablist">
+            <button
+              role="tab"
+              aria-selected={mode === 'photo'}
+              onClick={() => setMode('photo')}
+              disabled={loading}
+              className={`flex items-center px-4 py-1.5 rounded text-sm ${
+                mode === 'photo' ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <CameraIcon className="h-4 w-4 mr-2" />
+              Photo
+            </button>
+            <button
+              role="tab"
+              aria-selected={mode === 'text'}
+              onClick={() => setMode('text')}
+              disabled={loading}
+              className={`px-4 py-1.5 rounded text-sm ${
+                mode === 'text' ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              Describe
+            </button>
+            <button
+              role="tab"
+              aria-selected={mode === 'recipe'}
+              onClick={() => setMode('recipe')}
+              disabled={loading}
+              className={`px-4 py-1.5 rounded text-sm ${
+                mode === 'recipe' ? 'bg-blue-500 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              Recipe
+            </button>
           </div>
         </div>
       )}
       
       {!results && (
         <div className="bg-white border border-gray-200 p-6 rounded-lg shadow-sm mb-6">
-          <ImageUploader onImageCapture={handleImageCapture} />
+          {mode === 'photo' && <ImageUploader onImageCapture={handleImageCapture} />}
+          {mode === 'text' && <TextInput onSubmit={handleTextSubmit} />}
+          {mode === 'recipe' && <RecipeInput onSubmit={handleRecipeSubmit} />}
+          {mode !== 'recipe' && (
+            <label className="flex items-center gap-2 mt-4 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showRange}
+                onChange={(e) => setShowRange(e.target.checked)}
+                disabled={loading}
+              />
+              Show a calorie range (runs {RANGE_SAMPLES} estimates, takes a little longer)
+            </label>
+          )}
+          <AllergenWatchlist watchlist={watchlist} onChange={handleWatchlistChange} />
         </div>
       )}
       
-      {loading && (
+      {loading && progress && (
+        <div className="bg-blue-50 border border-blue-100 text-blue-700 p-4 mb-6 rounded-md">
+          <EstimationProgress stage={progress.stage} items={progress.items} />
+        </div>
+      )}
+      
+      {loading && !progress && (
         <div className="bg-blue-50 border border-blue-100 text-blue-700 p-4 mb-6 rounded-md flex items-center">
           <LoaderIcon className="h-5 w-5 text-blue-500 mr-2 animate-spin" />
           <div>
             <p className="font-medium">Analyzing your food...</p>
             <p className="text-sm mt-1">
-              Using mock data for demonstration purposes.
+              {results
+                ? 'Refining the estimate with your answers.'
+                : jobStatus
+                  ? jobStatus === 'pending'
+                    ? 'Your photo is queued. You can leave this page and come back for the result.'
+                    : 'Working on it on the server. You can leave this page and come back for the result.'
+                : mode === 'photo'
+                  ? photoPath === 'direct'
+                    ? 'Sending your photo. The estimate arrives all at once and can take up to a minute.'
+                    : 'Sending your photo.'
+                  : mode === 'recipe'
+                    ? 'Working out each ingredient and the per-serving totals.'
+                    : 'Estimating from your description.'}
             </p>
           </div>
         </div>
       )}
       
-      {results && (
+      {results && askingQuestions && (
         <div className="bg-white border border-gray-200 p-6 rounded-lg shadow mb-6">
-          <ResultDisplay 
-            results={results} 
-            onReset={() => {
-              setBase64Image(null);
-              setResults(null);
-              setRetryCount(0);
-            }} 
+          <ClarifyingQuestions
+            questions={results.clarifyingQuestions ?? []}
+            calories={results.calories}
+            confidence={results.confidence}
+            disabled={loading}
+            onSubmit={handleAnswers}
+            onSkip={() => setAskingQuestions(false)}
           />
         </div>
       )}
       
+      {results && !askingQuestions && (
+        <div className="bg-white border border-gray-200 p-6 rounded-lg shadow mb-6">
+          {results.source === 'text' ? (
+            <CalorieResult
+              calories={results.calories}
+              description={results.description || description || ''}
+              source={results.source}
+              foodItems={results.foodItems}
+              calorieRange={results.calorieRange}
+              watchlist={watchlist}
+              onReset={handleReset}
+            />
+          ) : (
+            <ResultDisplay 
+              results={results} 
+              onReset={handleReset} 
+              onChange={setResults}
+              watchlist={watchlist}
+            />
+          )}
+        </div>
+      )}
+      
       <div className="text-center text-gray-500 text-sm mt-8">
         <p>This app uses AI to estimate calories in food images.</p>
         <p>Results are approximate.</p>
         
-        <p className="mt-2 text-xs text-blue-500 font-medium">
-          Currently running in demo mode with mock data
-        </p>
+        {results?.source === 'image' && photoPath && (
+          <p className="mt-2 text-xs text-blue-500 font-medium">
+            {PHOTO_PATH_NOTES[photoPath]}
+          </p>
+        )}
         
         {isMobileDevice && (
           <p className="mt-2 text-xs text-gray-400">
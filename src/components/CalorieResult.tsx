@@ -1,9 +1,18 @@
 'use client';
 
+import { Allergen, CalorieRange, EstimationSource, FoodItem } from '@/lib/types';
+import { formatCalorieRange } from '@/lib/macros';
+import { NutritionSourceBadge } from './NutritionSourceBadge';
+import { AllergenAlert } from './AllergenAlert';
+import { AllergenBadges } from './AllergenBadges';
+
 interface CalorieResultProps {
   calories: number;
   description: string;
-  source: 'image' | 'text';
+  source: EstimationSource;
+  foodItems?: FoodItem[];
+  calorieRange?: CalorieRange;
+  watchlist?: Allergen[];
   onReset: () => void;
 }
 
@@ -11,13 +20,23 @@ export default function CalorieResult({
   calories,
   description,
   source,
+  foodItems,
+  calorieRange,
+  watchlist = [],
   onReset,
 }: CalorieResultProps) {
   return (
     <div className="flex flex-col items-center text-center">
+      {foodItems && (
+        <AllergenAlert foodItems={foodItems} watchlist={watchlist} className="w-full mb-6" />
+      )}
+      
       <div className="mb-6">
         <div className="text-gray-500 mb-1">Estimated Calories</div>
         <div className="text-4xl font-bold">{calories}</div>
+        {calorieRange && (
+          <div className="text-sm text-gray-500 mt-1">Likely {formatCalorieRange(calorieRange)}</div>
+        )}
       </div>
       
       <div className="bg-gray-100 p-4 rounded-lg w-full mb-6">
@@ -25,6 +44,22 @@ export default function CalorieResult({
         <div className="font-medium">{description}</div>
       </div>
       
+      {foodItems && foodItems.length > 0 && (
+        <ul className="w-full mb-6 divide-y text-left">
+          {foodItems.map((item, index) => (
+            <li key={index} className="py-2 flex justify-between">
+              <span>
+                <span className="font-medium">{item.name}</span>
+                <span className="text-gray-500 text-sm ml-2">({item.portion})</span>
+                <NutritionSourceBadge item={item} />
+                <AllergenBadges allergens={item.allergens} watchlist={watchlist} />
+              </span>
+              <span className="font-medium">{item.calories} cal</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      
       <button
         onClick={onReset}
         className="py-2 px-4 border border-gray-300 rounded-lg hover:bg-gray-50"
@@ -33,9 +68,9 @@ export default function CalorieResult({
       </button>
       
       <div className="mt-6 text-xs text-gray-400">
-        This is an AI estimate based on visual analysis{source === 'image' ? ' of your photo' : ''}.
+        This is an AI estimate based on {source === 'image' ? 'visual analysis of your photo' : 'your description'}.
         Actual calories may vary.
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
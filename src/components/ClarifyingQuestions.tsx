@@ -0,0 +1,79 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import { ClarifyingAnswer } from '@/lib/types';
+
+interface ClarifyingQuestionsProps {
+  questions: string[];
+  calories: number; // Preliminary estimate
+  confidence: number;
+  disabled?: boolean;
+  onSubmit: (answers: ClarifyingAnswer[]) => void;
+  onSkip: () => void;
+}
+
+export function ClarifyingQuestions({
+  questions,
+  calories,
+  confidence,
+  disabled,
+  onSubmit,
+  onSkip,
+}: ClarifyingQuestionsProps) {
+  const [answers, setAnswers] = useState<string[]>(() => questions.map(() => ''));
+  
+  // Unanswered questions are left out; the model keeps its assumption for those
+  const answered = questions
+    .map((question, index) => ({ question, answer: answers[index].trim() }))
+    .filter(({ answer }) => answer !== '');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (answered.length) {
+      onSubmit(answered);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <h2 className="text-xl font-semibold">A few quick questions</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Preliminary estimate: <span className="font-medium">{calories} calories</span> ({Math.round(confidence * 100)}% confidence).
+          Answering helps account for things your photo or description doesn't show.
+        </p>
+      </div>
+      
+      {questions.map((question, index) => (
+        <label key={index} className="block">
+          <span className="block text-sm font-medium text-gray-700 mb-1">{question}</span>
+          <input
+            value={answers[index]}
+            onChange={(e) => setAnswers(prev => prev.map((answer, i) => i === index ? e.target.value : answer))}
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm"
+            maxLength={500}
+            disabled={disabled}
+          />
+        </label>
+      ))}
+      
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="flex-1 bg-blue-500 hover:bg-blue-600 text-white py-2 px-4 rounded-md disabled:opacity-50"
+          disabled={disabled || !answered.length}
+        >
+          Refine estimate
+        </button>
+        <button
+          type="button"
+          onClick={onSkip}
+          className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 py-2 px-4 rounded-md"
+          disabled={disabled}
+        >
+          Skip
+        </button>
+      </div>
+    </form>
+  );
+}
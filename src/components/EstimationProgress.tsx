@@ -0,0 +1,57 @@
+'use client';
+
+import { EstimationStage, PartialFoodItem } from '@/lib/types';
+import { CheckIcon, LoaderIcon } from './icons';
+
+interface EstimationProgressProps {
+  stage: EstimationStage;
+  items: PartialFoodItem[];
+}
+
+// Steps shown to the user, in the order the server reports them
+const STEPS: { stage: EstimationStage; label: string }[] = [
+  { stage: 'received', label: 'Photo received' },
+  { stage: 'normalized', label: 'Image prepared' },
+  { stage: 'model_started', label: 'Analyzing your food' },
+  { stage: 'partial_items', label: 'Identifying items' },
+];
+
+export function EstimationProgress({ stage, items }: EstimationProgressProps) {
+  const current = STEPS.findIndex(step => step.stage === stage);
+
+  return (
+    <div className="w-full">
+      <ol className="space-y-1 text-sm">
+        {STEPS.map((step, index) => (
+          <li
+            key={step.stage}
+            className={`flex items-center ${index > current ? 'text-blue-300' : ''}`}
+          >
+            {index < current ? (
+              <CheckIcon className="h-4 w-4 mr-2 text-green-600" />
+            ) : index === current ? (
+              <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <span className="h-4 w-4 mr-2" />
+            )}
+            {step.label}
+          </li>
+        ))}
+      </ol>
+
+      {items.length > 0 && (
+        <ul className="mt-3 divide-y divide-blue-100 text-sm">
+          {items.map((item, index) => (
+            <li key={index} className="py-1 flex justify-between">
+              <span>
+                <span className="font-medium">{item.name}</span>
+                {item.portion && <span className="text-blue-500 ml-2">({item.portion})</span>}
+              </span>
+              {item.calories !== undefined && <span>~{item.calories} cal</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
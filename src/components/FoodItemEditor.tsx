@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+
+interface FoodItemEditorProps {
+  initialName?: string;
+  initialPortion?: string;
+  submitLabel: string;
+  disabled?: boolean;
+  onSubmit: (name: string, portion: string) => void;
+  onCancel: () => void;
+}
+
+export function FoodItemEditor({
+  initialName = '',
+  initialPortion = '',
+  submitLabel,
+  disabled,
+  onSubmit,
+  onCancel,
+}: FoodItemEditorProps) {
+  const [name, setName] = useState(initialName);
+  const [portion, setPortion] = useState(initialPortion);
+  const isValid = name.trim() !== '' && portion.trim() !== '';
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (isValid) {
+      onSubmit(name.trim(), portion.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 py-2">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Food, e.g. brown rice"
+        aria-label="Food name"
+        className="flex-1 min-w-0 border border-gray-300 rounded px-2 py-1 text-sm"
+        disabled={disabled}
+        autoFocus
+      />
+      <input
+        value={portion}
+        onChange={(e) => setPortion(e.target.value)}
+        placeholder="Portion, e.g. 1 cup"
+        aria-label="Portion"
+        className="w-32 border border-gray-300 rounded px-2 py-1 text-sm"
+        disabled={disabled}
+      />
+      <button
+        type="submit"
+        className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+        disabled={disabled || !isValid}
+      >
+        {submitLabel}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="text-gray-600 hover:bg-gray-100 px-3 py-1 rounded text-sm"
+        disabled={disabled}
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect } from 'react';
 import { compressImage, fileToBase64 } from '@/lib/image-utils';
+import { loadDefaultPlate, saveDefaultPlate } from '@/lib/default-plate';
+import { ScaleReference } from '@/lib/types';
 import { CameraIcon, XIcon, UploadIcon } from './icons';
+import { ReferencePicker } from './ReferencePicker';
 
 // Safe browser detection utilities for device detection
 const isBrowser = typeof window !== 'undefined';
@@ -11,14 +14,37 @@ const isMobileDevice = isBrowser && /iPhone|iPad|iPod|Android/i.test(getUserAgen
 const isIOSDevice = isBrowser && /iPhone|iPad|iPod/i.test(getUserAgent());
 
 interface ImageUploaderProps {
-  onImageCapture: (base64Image: string) => void;
+  onImageCapture: (base64Image: string, reference?: ScaleReference) => void;
 }
 
 export function ImageUploader({ onImageCapture }: ImageUploaderProps) {
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [reference, setReference] = useState<ScaleReference | null>(null);
+  const [defaultPlate, setDefaultPlate] = useState<number | null>(null);
+  const [plateLoaded, setPlateLoaded] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Start from the user's own plate when they have saved one
+  useEffect(() => {
+    const saved = loadDefaultPlate();
+    setDefaultPlate(saved);
+    if (saved) {
+      setReference({ object: 'plate', diameterCm: saved });
+    }
+    setPlateLoaded(true);
+  }, []);
+
+  const handleSaveDefaultPlate = (diameterCm: number) => {
+    setDefaultPlate(diameterCm);
+    saveDefaultPlate(diameterCm);
+  };
+
+  const capture = (image: string) => {
+    setPreviewUrl(image);
+    onImageCapture(image, reference ?? undefined);
+  };
+
   const handleImageSelect = async (file: File) => {
     try {
       setIsProcessing(true);
@@ -80,8 +106,7 @@ export function ImageUploader({ onImageCapture }: ImageUploaderProps) {
             
             const extremeCompressionImage = canvas.toDataURL('image/jpeg', 0.4);
             console.log('Extreme compression complete');
-            setPreviewUrl(extremeCompressionImage);
-            onImageCapture(extremeCompressionImage);
+            capture(extremeCompressionImage);
             return;
           }
         } catch (compressionError) {
@@ -108,11 +133,9 @@ export function ImageUploader({ onImageCapture }: ImageUploaderProps) {
         
         const secondPassImage = canvas.toDataURL('image/jpeg', 0.6);
         console.log('Second pass compression complete');
-        setPreviewUrl(secondPassImage);
-        onImageCapture(secondPassImage);
+        capture(secondPassImage);
       } else {
-        setPreviewUrl(compressedImage);
-        onImageCapture(compressedImage);
+        capture(compressedImage);
       }
     } catch (error) {
       console.error('Error processing image:', error);
@@ -204,6 +227,18 @@ export function ImageUploader({ onImageCapture }: ImageUploaderProps) {
         disabled={isProcessing}
       />
 
+      {!previewUrl && plateLoaded && (
+        <div className="mt-4">
+          <ReferencePicker
+            value={reference}
+            onChange={setReference}
+            defaultPlate={defaultPlate}
+            onSaveDefaultPlate={handleSaveDefaultPlate}
+            disabled={isProcessing}
+          />
+        </div>
+      )}
+
       {!previewUrl && (
         <div className="mt-4 flex justify-center gap-4">
           <button
@@ -0,0 +1,27 @@
+import { FoodItem } from '@/lib/types';
+
+interface NutritionSourceBadgeProps {
+  item: FoodItem;
+}
+
+export function NutritionSourceBadge({ item }: NutritionSourceBadgeProps) {
+  if (item.nutritionSource === 'database') {
+    return (
+      <span
+        className="ml-2 inline-block rounded bg-green-100 px-1.5 py-0.5 text-xs font-medium text-green-800"
+        title={`Values from nutrition database: ${item.databaseMatch?.name ?? 'reference food'}`}
+      >
+        Database
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className="ml-2 inline-block rounded bg-amber-100 px-1.5 py-0.5 text-xs font-medium text-amber-800"
+      title="No confident database match, values are the AI estimate"
+    >
+      AI estimate
+    </span>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+
+// Keep in line with the limits of /api/v1/estimates/recipe
+const MAX_SERVINGS = 100;
+
+interface RecipeInputProps {
+  onSubmit: (ingredients: string, servings: number) => void;
+}
+
+export function RecipeInput({ onSubmit }: RecipeInputProps) {
+  const [ingredients, setIngredients] = useState('');
+  const [servings, setServings] = useState('4');
+  
+  const servingCount = Number(servings);
+  const isValid = ingredients.trim() !== ''
+    && Number.isInteger(servingCount)
+    && servingCount >= 1
+    && servingCount <= MAX_SERVINGS;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (isValid) {
+      onSubmit(ingredients.trim(), servingCount);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="border border-gray-300 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-gray-400 focus-within:border-transparent">
+        <textarea
+          value={ingredients}
+          onChange={(e) => setIngredients(e.target.value)}
+          placeholder={"Paste your ingredient list, one per line:\n1 lb ground beef\n2 cups black beans\n1 onion"}
+          className="w-full p-4 h-40 resize-none focus:outline-none"
+          aria-label="Ingredients"
+          required
+        />
+      </div>
+      
+      <label className="flex items-center gap-3 text-sm text-gray-700">
+        Servings
+        <input
+          type="number"
+          min={1}
+          max={MAX_SERVINGS}
+          step={1}
+          value={servings}
+          onChange={(e) => setServings(e.target.value)}
+          className="w-20 border border-gray-300 rounded px-2 py-1"
+          required
+        />
+      </label>
+      
+      <button
+        type="submit"
+        className={`w-full py-3 rounded-lg flex items-center justify-center ${
+          isValid
+            ? 'bg-gray-800 text-white hover:bg-gray-900'
+            : 'bg-gray-200 text-gray-500 cursor-not-allowed'
+        }`}
+        disabled={!isValid}
+      >
+        Estimate per serving
+      </button>
+    </form>
+  );
+}
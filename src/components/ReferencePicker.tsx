@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { ScaleReference } from '@/lib/types';
+import {
+  DEFAULT_PLATE_DIAMETER_CM,
+  PLATE_DIAMETER_MAX_CM,
+  PLATE_DIAMETER_MIN_CM,
+  REFERENCE_LABELS,
+  ReferenceObject,
+} from '@/lib/scale-reference';
+
+interface ReferencePickerProps {
+  value: ScaleReference | null;
+  onChange: (reference: ScaleReference | null) => void;
+  defaultPlate: number | null;
+  onSaveDefaultPlate: (diameterCm: number) => void;
+  disabled?: boolean;
+}
+
+function isValidDiameter(diameter: number) {
+  return diameter >= PLATE_DIAMETER_MIN_CM && diameter <= PLATE_DIAMETER_MAX_CM;
+}
+
+export function ReferencePicker({ value, onChange, defaultPlate, onSaveDefaultPlate, disabled }: ReferencePickerProps) {
+  const [diameter, setDiameter] = useState(String(defaultPlate ?? DEFAULT_PLATE_DIAMETER_CM));
+  const [object, setObject] = useState<ReferenceObject | 'none'>(value?.object ?? 'none');
+
+  const parsedDiameter = Number(diameter);
+  const diameterValid = isValidDiameter(parsedDiameter);
+
+  const handleObjectChange = (selected: ReferenceObject | 'none') => {
+    setObject(selected);
+    if (selected === 'none') {
+      onChange(null);
+    } else if (selected === 'plate') {
+      onChange(diameterValid ? { object: 'plate', diameterCm: parsedDiameter } : null);
+    } else {
+      onChange({ object: selected });
+    }
+  };
+
+  const handleDiameterChange = (text: string) => {
+    setDiameter(text);
+    const updated = Number(text);
+    onChange(isValidDiameter(updated) ? { object: 'plate', diameterCm: updated } : null);
+  };
+
+  return (
+    <div className="text-sm text-gray-600">
+      <label className="flex items-center justify-center gap-2">
+        Size reference in photo
+        <select
+          value={object}
+          onChange={(e) => handleObjectChange(e.target.value as ReferenceObject | 'none')}
+          disabled={disabled}
+          className="border border-gray-300 rounded-md px-2 py-1"
+        >
+          <option value="none">None</option>
+          {(Object.keys(REFERENCE_LABELS) as ReferenceObject[]).map((key) => (
+            <option key={key} value={key}>{REFERENCE_LABELS[key]}</option>
+          ))}
+        </select>
+      </label>
+
+      {object === 'plate' && (
+        <div className="mt-2 flex items-center justify-center gap-2">
+          <input
+            type="number"
+            inputMode="decimal"
+            min={PLATE_DIAMETER_MIN_CM}
+            max={PLATE_DIAMETER_MAX_CM}
+            value={diameter}
+            onChange={(e) => handleDiameterChange(e.target.value)}
+            disabled={disabled}
+            aria-label="Plate diameter in centimetres"
+            className={`w-20 border rounded-md px-2 py-1 ${diameterValid ? 'border-gray-300' : 'border-red-400'}`}
+          />
+          <span>cm across</span>
+          {diameterValid && parsedDiameter !== defaultPlate && (
+            <button
+              type="button"
+              onClick={() => onSaveDefaultPlate(parsedDiameter)}
+              disabled={disabled}
+              className="text-blue-600 hover:underline"
+            >
+              Save as my plate
+            </button>
+          )}
+          {diameterValid && parsedDiameter === defaultPlate && (
+            <span className="text-gray-400">Your saved plate</span>
+          )}
+        </div>
+      )}
+      {object === 'plate' && !diameterValid && (
+        <p className="mt-1 text-xs text-red-500">
+          Enter a diameter between {PLATE_DIAMETER_MIN_CM} and {PLATE_DIAMETER_MAX_CM} cm
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,53 +1,216 @@
-import { CalorieEstimation } from '@/lib/types';
-import { RefreshIcon } from './icons';
+'use client';
+
+import { useState } from 'react';
+import { Allergen, CalorieEstimation, FoodItem, Macronutrients } from '@/lib/types';
+import { DIET_TAG_LABELS } from '@/lib/allergens';
+import { formatReference } from '@/lib/scale-reference';
+import { MACRO_LABELS, emptyMacros, formatCalorieRange, formatGrams, sumCalories } from '@/lib/macros';
+import { recalculateEstimation } from '@/lib/api';
+import { describeError } from '@/lib/error-messages';
+import { NutritionSourceBadge } from './NutritionSourceBadge';
+import { FoodItemEditor } from './FoodItemEditor';
+import { AllergenAlert } from './AllergenAlert';
+import { AllergenBadges } from './AllergenBadges';
+import { PencilIcon, PlusIcon, RefreshIcon, TrashIcon } from './icons';
 
 interface ResultDisplayProps {
   results: CalorieEstimation;
   onReset: () => void;
+  onChange?: (results: CalorieEstimation) => void;
+  watchlist?: Allergen[];
 }
 
-export function ResultDisplay({ results, onReset }: ResultDisplayProps) {
-  const { calories, foodItems, confidence, imageUrl } = results;
+export function ResultDisplay({ results, onReset, onChange, watchlist = [] }: ResultDisplayProps) {
+  const { calories, macros, foodItems, confidence, imageUrl, calorieRange, samples, servings, dietTags, calibration } = results;
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+  
+  // Send the edited estimation to the server so calories and totals stay consistent
+  const applyEdit = async (edited: CalorieEstimation, itemIndex?: number) => {
+    if (!onChange) {
+      return;
+    }
+    
+    setIsSaving(true);
+    setEditError(null);
+    try {
+      onChange(await recalculateEstimation(edited, itemIndex));
+      setEditingIndex(null);
+      setIsAdding(false);
+    } catch (error) {
+      setEditError(describeError(error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  
+  const handleEditItem = (index: number, name: string, portion: string) => {
+    const items = foodItems.map((item, i) => i === index ? { ...item, name, portion } : item);
+    applyEdit({ ...results, foodItems: items }, index);
+  };
+  
+  const handleAddItem = (name: string, portion: string) => {
+    const newItem: FoodItem = { name, portion, calories: 0, macros: emptyMacros() };
+    applyEdit({ ...results, foodItems: [...foodItems, newItem] }, foodItems.length);
+  };
+  
+  const handleRemoveItem = (index: number) => {
+    applyEdit({ ...results, foodItems: foodItems.filter((_, i) => i !== index) });
+  };
   
   // Format confidence as percentage
   const confidencePercent = Math.round(confidence * 100);
   
   return (
     <div className="space-y-4">
+      <AllergenAlert foodItems={foodItems} watchlist={watchlist} />
+      
       <div className="flex flex-col md:flex-row gap-6">
-        <div className="md:w-1/3">
-          <div className="aspect-square relative rounded-lg overflow-hidden">
-            <img 
-              src={imageUrl} 
-              alt="Analyzed food" 
-              className="object-cover w-full h-full"
-            />
+        {imageUrl && (
+          <div className="md:w-1/3">
+            <div className="aspect-square relative rounded-lg overflow-hidden">
+              <img 
+                src={imageUrl} 
+                alt="Analyzed food" 
+                className="object-cover w-full h-full"
+              />
+            </div>
           </div>
-        </div>
+        )}
         
-        <div className="md:w-2/3">
+        <div className={imageUrl ? 'md:w-2/3' : 'w-full'}>
           <div className="mb-4">
             <h3 className="text-2xl font-bold text-gray-800">
-              {calories} calories
+              {calories} calories{servings && ' per serving'}
             </h3>
-            <p className="text-gray-500 text-sm">
-              Analysis confidence: {confidencePercent}%
-            </p>
+            {servings && (
+              <p className="text-gray-500 text-sm">
+                Recipe makes {servings} serving{servings === 1 ? '' : 's'} · {sumCalories(foodItems)} calories in total
+              </p>
+            )}
+            {calorieRange ? (
+              <p className="text-gray-500 text-sm">
+                Likely range: <span className="font-medium text-gray-700">{formatCalorieRange(calorieRange)} calories</span>
+                {samples && ` across ${samples} estimates`} ({confidencePercent}% agreement)
+              </p>
+            ) : (
+              <p className="text-gray-500 text-sm">
+                Analysis confidence: {confidencePercent}%
+              </p>
+            )}
+            {calibration?.reference && (
+              <p className="text-gray-500 text-sm">
+                {calibration.used
+                  ? `Portions scaled against your ${formatReference(calibration.reference)}`
+                  : `Your ${formatReference(calibration.reference)} wasn't visible, so portions weren't scaled against it`}
+              </p>
+            )}
+          </div>
+          
+          {dietTags && dietTags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-4">
+              {dietTags.map(tag => (
+                <span key={tag} className="rounded-full bg-green-50 border border-green-200 px-2 py-0.5 text-xs font-medium text-green-800">
+                  {DIET_TAG_LABELS[tag]}
+                </span>
+              ))}
+            </div>
+          )}
+          
+          <div className="grid grid-cols-4 gap-2 mb-4">
+            {(Object.keys(MACRO_LABELS) as (keyof Macronutrients)[]).map(key => (
+              <div key={key} className="bg-gray-50 rounded p-2 text-center">
+                <div className="text-xs text-gray-500">{MACRO_LABELS[key]}</div>
+                <div className="font-semibold text-gray-800">{formatGrams(macros[key])}</div>
+              </div>
+            ))}
           </div>
           
           <div className="space-y-2">
-            <h4 className="font-semibold text-gray-700">Food items detected:</h4>
+            <h4 className="font-semibold text-gray-700">
+              {servings ? 'Ingredients (whole recipe):' : 'Food items detected:'}
+            </h4>
             <ul className="divide-y">
-              {foodItems.map((item, index) => (
+              {foodItems.map((item, index) => editingIndex === index ? (
+                <li key={index}>
+                  <FoodItemEditor
+                    initialName={item.name}
+                    initialPortion={item.portion}
+                    submitLabel={isSaving ? 'Saving...' : 'Save'}
+                    disabled={isSaving}
+                    onSubmit={(name, portion) => handleEditItem(index, name, portion)}
+                    onCancel={() => setEditingIndex(null)}
+                  />
+                </li>
+              ) : (
                 <li key={index} className="py-2 flex justify-between">
                   <span>
                     <span className="font-medium">{item.name}</span>
                     <span className="text-gray-500 text-sm ml-2">({item.portion})</span>
+                    <NutritionSourceBadge item={item} />
+                    <span className="block text-xs text-gray-500">
+                      P {formatGrams(item.macros.protein)} · C {formatGrams(item.macros.carbohydrates)} · F {formatGrams(item.macros.fat)} · Fiber {formatGrams(item.macros.fiber)}
+                    </span>
+                    <AllergenBadges allergens={item.allergens} watchlist={watchlist} />
+                  </span>
+                  <span className="flex items-start gap-2">
+                    <span className="text-right">
+                      <span className="block font-medium">{item.calories} cal</span>
+                      {servings && (
+                        <span className="block text-xs text-gray-500">{Math.round(item.calories / servings)} per serving</span>
+                      )}
+                      {item.calorieRange && (
+                        <span className="block text-xs text-gray-500">{formatCalorieRange(item.calorieRange)}</span>
+                      )}
+                    </span>
+                    {onChange && (
+                      <>
+                        <button
+                          onClick={() => { setEditingIndex(index); setIsAdding(false); }}
+                          className="text-gray-400 hover:text-blue-600"
+                          aria-label={`Edit ${item.name}`}
+                          disabled={isSaving}
+                        >
+                          <PencilIcon className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRemoveItem(index)}
+                          className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                          aria-label={`Remove ${item.name}`}
+                          disabled={isSaving || foodItems.length === 1}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </>
+                    )}
                   </span>
-                  <span className="font-medium">{item.calories} cal</span>
                 </li>
               ))}
             </ul>
+            
+            {onChange && (isAdding ? (
+              <FoodItemEditor
+                submitLabel={isSaving ? 'Adding...' : 'Add'}
+                disabled={isSaving}
+                onSubmit={handleAddItem}
+                onCancel={() => setIsAdding(false)}
+              />
+            ) : (
+              <button
+                onClick={() => { setIsAdding(true); setEditingIndex(null); }}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                disabled={isSaving}
+              >
+                <PlusIcon className="h-4 w-4" />
+                Add item
+              </button>
+            ))}
+            
+            {editError && (
+              <p className="text-sm text-red-600">{editError}</p>
+            )}
           </div>
         </div>
       </div>
@@ -64,6 +227,7 @@ export function ResultDisplay({ results, onReset }: ResultDisplayProps) {
       
       <div className="text-sm text-gray-500 mt-4 p-2 bg-gray-50 rounded">
         <p>Note: These calorie estimations are approximate and may vary based on exact preparation methods, portion sizes, and ingredients.</p>
+        <p className="mt-1">Items marked "Database" use reference nutrition values for the estimated weight. Items marked "AI estimate" had no confident match.</p>
       </div>
     </div>
   );
@@ -1,4 +1,8 @@
-import { CalorieEstimation, FoodItem } from '@/lib/types';
+import { CalorieEstimation, Macronutrients } from '@/lib/types';
+import { MACRO_LABELS, formatGrams } from '@/lib/macros';
+import { NutritionSourceBadge } from './NutritionSourceBadge';
+
+const MACRO_KEYS = Object.keys(MACRO_LABELS) as (keyof Macronutrients)[];
 
 interface ResultsDisplayProps {
   result: CalorieEstimation;
@@ -8,15 +12,17 @@ export function ResultsDisplay({ result }: ResultsDisplayProps) {
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <div className="flex flex-col md:flex-row gap-6">
-        <div className="md:w-1/3">
-          <img 
-            src={result.imageUrl} 
-            alt="Food image" 
-            className="w-full h-auto rounded-md object-cover"
-          />
-        </div>
+        {result.imageUrl && (
+          <div className="md:w-1/3">
+            <img 
+              src={result.imageUrl} 
+              alt="Food image" 
+              className="w-full h-auto rounded-md object-cover"
+            />
+          </div>
+        )}
         
-        <div className="md:w-2/3">
+        <div className={result.imageUrl ? 'md:w-2/3' : 'w-full'}>
           <div className="flex justify-between items-center mb-4">
             <h2 className="text-2xl font-bold">Calorie Estimate</h2>
             <div className="flex items-center">
@@ -41,7 +47,7 @@ export function ResultsDisplay({ result }: ResultsDisplayProps) {
           </div>
           
           <h3 className="text-lg font-semibold mb-2">Food Items</h3>
-          <div className="overflow-hidden border border-gray-200 rounded-lg">
+          <div className="overflow-x-auto border border-gray-200 rounded-lg">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
                 <tr>
@@ -54,23 +60,54 @@ export function ResultsDisplay({ result }: ResultsDisplayProps) {
                   <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Calories
                   </th>
+                  {MACRO_KEYS.map(key => (
+                    <th key={key} className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {MACRO_LABELS[key]}
+                    </th>
+                  ))}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {result.foodItems.map((item, index) => (
                   <tr key={index}>
                     <td className="px-4 py-3 whitespace-nowrap">
-                      <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                      <div className="text-sm font-medium text-gray-900">
+                        {item.name}
+                        <NutritionSourceBadge item={item} />
+                      </div>
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap">
-                      <div className="text-sm text-gray-500">{item.portion}</div>
+                      <div className="text-sm text-gray-500">
+                        {item.portion}
+                        {item.grams !== undefined && ` (${Math.round(item.grams)} g)`}
+                      </div>
                     </td>
                     <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-medium">
                       {item.calories}
                     </td>
+                    {MACRO_KEYS.map(key => (
+                      <td key={key} className="px-4 py-3 whitespace-nowrap text-right text-sm text-gray-500">
+                        {formatGrams(item.macros[key])}
+                      </td>
+                    ))}
                   </tr>
                 ))}
               </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-4 py-3 text-sm font-semibold" colSpan={2}>
+                    Meal total
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-right text-sm font-semibold">
+                    {result.calories}
+                  </td>
+                  {MACRO_KEYS.map(key => (
+                    <td key={key} className="px-4 py-3 whitespace-nowrap text-right text-sm font-semibold">
+                      {formatGrams(result.macros[key])}
+                    </td>
+                  ))}
+                </tr>
+              </tfoot>
             </table>
           </div>
           
@@ -0,0 +1,39 @@
+import { ALLERGENS } from './allergens';
+import { Allergen } from './types';
+
+const STORAGE_KEY = 'allergenWatchlist';
+
+/**
+ * Read the user's allergen watchlist from local storage
+ * @returns Watched allergens, empty when nothing is saved or storage is unavailable
+ */
+export function loadWatchlist(): Allergen[] {
+  if (typeof window === 'undefined') {
+    return [];
+  }
+
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? ALLERGENS.filter(allergen => saved.includes(allergen)) : [];
+  } catch (error) {
+    // Private browsing on iOS can throw on storage access
+    console.warn('Unable to read allergen watchlist:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the user's allergen watchlist to local storage
+ * @param watchlist Allergens to highlight in results
+ */
+export function saveWatchlist(watchlist: Allergen[]): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(watchlist));
+  } catch (error) {
+    console.warn('Unable to save allergen watchlist:', error);
+  }
+}
@@ -0,0 +1,156 @@
+import { Allergen, CalorieEstimation, DietTag, FoodItem } from './types';
+
+export const ALLERGENS: Allergen[] = ['gluten', 'dairy', 'nuts', 'shellfish', 'egg', 'soy'];
+
+export const DIET_TAGS: DietTag[] = ['vegetarian', 'vegan', 'keto-friendly'];
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: 'Gluten',
+  dairy: 'Dairy',
+  nuts: 'Nuts',
+  shellfish: 'Shellfish',
+  egg: 'Egg',
+  soy: 'Soy',
+};
+
+export const DIET_TAG_LABELS: Record<DietTag, string> = {
+  vegetarian: 'Vegetarian',
+  vegan: 'Vegan',
+  'keto-friendly': 'Keto-friendly',
+};
+
+// Words in a food name that reveal an allergen. Plurals are matched too.
+const ALLERGEN_KEYWORDS: Record<Allergen, string[]> = {
+  gluten: [
+    'bread', 'toast', 'bun', 'bagel', 'croissant', 'pasta', 'spaghetti', 'penne', 'macaroni', 'lasagna',
+    'noodle', 'ramen', 'udon', 'wheat', 'flour', 'pizza', 'cracker', 'crouton', 'couscous', 'barley', 'rye',
+    'pancake', 'waffle', 'muffin', 'cake', 'cookie', 'biscuit', 'pastry', 'pie', 'dumpling', 'breaded',
+    'granola', 'cereal', 'seitan', 'beer', 'soy sauce', 'tempura', 'sandwich', 'burrito', 'wrap', 'pita',
+    'burger', 'hamburger', 'cheeseburger',
+  ],
+  dairy: [
+    'milk', 'cheese', 'parmesan', 'mozzarella', 'cheddar', 'feta', 'ricotta', 'brie', 'butter', 'cream',
+    'yogurt', 'yoghurt', 'ice cream', 'whey', 'ghee', 'latte', 'cappuccino', 'custard', 'alfredo', 'queso',
+    'cheeseburger',
+  ],
+  nuts: [
+    'nut', 'peanut', 'almond', 'walnut', 'pecan', 'cashew', 'pistachio', 'hazelnut', 'macadamia',
+    'pesto', 'praline', 'nutella', 'marzipan', 'satay',
+  ],
+  shellfish: [
+    'shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'crawfish', 'scallop', 'clam', 'mussel', 'oyster',
+  ],
+  egg: [
+    'egg', 'omelet', 'omelette', 'frittata', 'quiche', 'mayonnaise', 'mayo', 'aioli', 'meringue', 'custard',
+  ],
+  soy: ['soy', 'soya', 'tofu', 'edamame', 'tempeh', 'miso'],
+};
+
+// Phrases that contain a keyword without the allergen ("peanut butter" has no dairy)
+const ALLERGEN_EXCEPTIONS: Partial<Record<Allergen, string[]>> = {
+  dairy: [
+    'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'apple butter', 'cocoa butter',
+    'almond milk', 'oat milk', 'soy milk', 'rice milk', 'coconut milk', 'coconut cream',
+  ],
+  gluten: ['rice noodle', 'rice cracker', 'rice paper'],
+};
+
+// Names that declare the food free of an allergen ("gluten-free bread")
+const FREE_FROM: Record<Allergen, string[]> = {
+  gluten: ['gluten free'],
+  dairy: ['dairy free', 'vegan'],
+  nuts: ['nut free'],
+  shellfish: [],
+  egg: ['egg free', 'vegan'],
+  soy: ['soy free'],
+};
+
+// Names that rule out a vegetarian meal
+const MEAT_KEYWORDS = [
+  'chicken', 'beef', 'steak', 'pork', 'bacon', 'ham', 'sausage', 'turkey', 'lamb', 'veal', 'duck', 'venison',
+  'salami', 'pepperoni', 'prosciutto', 'chorizo', 'meat', 'meatball', 'brisket', 'gelatin', 'anchovy',
+  'burger', 'hamburger', 'cheeseburger', 'hot dog',
+  'fish', 'salmon', 'tuna', 'cod', 'tilapia', 'sardine', 'mackerel', 'trout', 'squid', 'calamari', 'octopus',
+  ...ALLERGEN_KEYWORDS.shellfish,
+];
+
+// Names that rule out a vegan meal on top of the meat list
+const ANIMAL_PRODUCT_KEYWORDS = ['honey', ...ALLERGEN_KEYWORDS.dairy, ...ALLERGEN_KEYWORDS.egg];
+
+const MEAT_EXCEPTIONS = ['plant based', 'vegan', 'vegetarian', 'veggie', 'impossible', 'beyond'];
+
+// Share of calories from carbohydrates at or below which a meal counts as keto-friendly
+const KETO_MAX_CARB_ENERGY = 0.1;
+
+/**
+ * Lowercase a food name and drop punctuation so keywords match on word boundaries
+ */
+function normalize(name: string): string {
+  return ` ${name.toLowerCase().replace(/[^a-z\s]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+}
+
+// Whether a keyword appears as a word, allowing a plural ending
+function mentions(text: string, keywords: string[], exceptions: string[] = []): boolean {
+  let remaining = text;
+  for (const exception of exceptions) {
+    remaining = remaining.split(exception).join(' ');
+  }
+  return keywords.some(keyword => new RegExp(` ${keyword}(?:s|es)? `).test(remaining));
+}
+
+/**
+ * Allergens revealed by a food's name
+ * @param name Food name, e.g. "Parmesan cheese"
+ * @returns Allergens in the canonical order
+ */
+export function detectAllergens(name: string): Allergen[] {
+  const text = normalize(name);
+  return ALLERGENS.filter(allergen =>
+    !FREE_FROM[allergen].some(phrase => text.includes(` ${phrase} `))
+    && mentions(text, ALLERGEN_KEYWORDS[allergen], ALLERGEN_EXCEPTIONS[allergen])
+  );
+}
+
+/**
+ * Combine the model's allergen flags with keyword detection. A flag is never
+ * dropped: missing an allergen is worse than a false alarm.
+ * @param item Food item, possibly carrying the model's `allergens`
+ * @returns Item with the merged allergen list
+ */
+export function tagAllergens(item: FoodItem): FoodItem {
+  const flagged = new Set<Allergen>([...item.allergens ?? [], ...detectAllergens(item.name)]);
+  return { ...item, allergens: ALLERGENS.filter(allergen => flagged.has(allergen)) };
+}
+
+/**
+ * Work out which diets a meal fits. Vegetarian and vegan are taken from the
+ * model, since a name alone can't prove a dish is meat-free, and dropped when
+ * any item name contradicts them. Keto-friendly is computed from the macros.
+ * @param estimation Items and per-meal totals
+ * @param claimed Diet tags reported by the model
+ * @returns Diet tags in the canonical order
+ */
+export function deriveDietTags(
+  estimation: Pick<CalorieEstimation, 'foodItems' | 'calories' | 'macros'>,
+  claimed: DietTag[] = []
+): DietTag[] {
+  const names = estimation.foodItems.map(item => normalize(item.name));
+  const hasMeat = names.some(name => mentions(name, MEAT_KEYWORDS, MEAT_EXCEPTIONS));
+  const hasAnimalProducts = hasMeat || names.some(name => mentions(name, ANIMAL_PRODUCT_KEYWORDS, ALLERGEN_EXCEPTIONS.dairy));
+
+  const vegan = claimed.includes('vegan') && !hasAnimalProducts;
+  const vegetarian = (vegan || claimed.includes('vegetarian')) && !hasMeat;
+  const carbEnergy = estimation.calories > 0 ? (estimation.macros.carbohydrates * 4) / estimation.calories : 1;
+
+  const tags = new Set<DietTag>();
+  if (vegetarian) {
+    tags.add('vegetarian');
+  }
+  if (vegan) {
+    tags.add('vegan');
+  }
+  if (carbEnergy <= KETO_MAX_CARB_ENERGY) {
+    tags.add('keto-friendly');
+  }
+  return DIET_TAGS.filter(tag => tags.has(tag));
+}
@@ -1,8 +1,22 @@
-import axios from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { config } from './config';
-import { ApiResponse, CalorieEstimation, CalorieEstimationRequest } from './types';
-import { ApiError, handleApiError } from './error';
-import { debug } from './debug';
+import {
+  ApiResponse,
+  BatchEstimationResult,
+  BatchImage,
+  CalorieEstimation,
+  CalorieEstimationRequest,
+  ClarifyingAnswer,
+  EstimationEvent,
+  EstimationJob,
+  ScaleReference,
+  SessionInfo,
+} from './types';
+import { ApiError, codeForStatus, handleApiError } from './error';
+import { createRequestId, debug } from './debug';
+import { REQUEST_ID_HEADER } from './headers';
+import { parseEvents } from './sse';
+import { clearPendingJob, loadPendingJob, savePendingJob } from './pending-job';
 
 // Safe browser detection utilities
 const isBrowser = typeof window !== 'undefined';
@@ -67,10 +81,111 @@ const api = axios.create({
   params: isIOSDevice ? { _: Date.now() } : {}
 });
 
+// Browser sessions are renewed this long before they expire
+const SESSION_RENEW_MARGIN = 5 * 60 * 1000;
+
+// The current browser session; expiresAt is Infinity while it is being started
+let session: { expiresAt: number; ready: Promise<number> } | null = null;
+
+/**
+ * The error to throw for an error response in the shared envelope, keeping
+ * the server's code and request ID
+ * @param body The response body, when there is one
+ * @param status HTTP status
+ * @param fallback Message for a body without one, such as a proxy's error page
+ */
+function errorFromResponse(body: ApiResponse<unknown> | null | undefined, status: number, fallback: string): ApiError {
+  const error = new ApiError(body?.error || fallback, status, body?.code || codeForStatus(status));
+  error.requestId = body?.requestId;
+  return error;
+}
+
+// The error to throw for a failed request: the server's when it answered, otherwise a network error
+function toApiError(error: AxiosError<ApiResponse<unknown>>, fallback: string): ApiError {
+  if (error.response) {
+    return errorFromResponse(error.response.data, error.response.status, error.message || fallback);
+  }
+  return new ApiError(error.message || fallback, 500, 'network_error');
+}
+
+async function startSession(): Promise<number> {
+  const response = await api.post<ApiResponse<SessionInfo>>('/v1/session');
+  if (!response.data.success || !response.data.data) {
+    throw errorFromResponse(response.data, response.status, 'Could not start a session');
+  }
+  return new Date(response.data.data.expiresAt).getTime();
+}
+
+/**
+ * Make sure the browser holds a session cookie for the API. Our own pages
+ * use it instead of an API key; it is started on first use and renewed
+ * shortly before it expires.
+ */
+function ensureSession(): Promise<number> {
+  if (!session || session.expiresAt - SESSION_RENEW_MARGIN < Date.now()) {
+    const pending = { expiresAt: Infinity, ready: startSession() };
+    pending.ready.then(
+      expiresAt => { pending.expiresAt = expiresAt; },
+      () => { if (session === pending) session = null; }
+    );
+    session = pending;
+  }
+  return session.ready;
+}
+
+// Marks a request already retried with a fresh session, so a 401 isn't retried
+// forever, and counts waits for the rate limit. Axios copies the config for
+// every attempt, so these ride along on it.
+type RetryableConfig = InternalAxiosRequestConfig & { sessionRetried?: boolean; rateLimitRetries?: number };
+
+// A rate-limited request is retried when the server asks to wait at most this
+// long; longer waits, such as a spent daily quota, are reported instead
+const MAX_RATE_LIMIT_WAIT = 30000;
+const MAX_RATE_LIMIT_RETRIES = 2;
+
+/**
+ * How long a 429 asks us to wait before trying again
+ * @param retryAfter Retry-After header: seconds, or an HTTP date
+ * @returns Wait in milliseconds, or null when the header is missing or unreadable
+ */
+function retryAfterMs(retryAfter: string | null | undefined): number | null {
+  if (!retryAfter) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Whether a 429 is worth waiting out, and for how long
+function rateLimitWait(status: number | undefined, retryAfter: string | null | undefined, retries: number): number | null {
+  if (status !== 429 || retries >= MAX_RATE_LIMIT_RETRIES) {
+    return null;
+  }
+  const wait = retryAfterMs(retryAfter);
+  return wait !== null && wait <= MAX_RATE_LIMIT_WAIT ? wait : null;
+}
+
+// The X-Request-Id a request was sent with
+function requestIdOf(config: InternalAxiosRequestConfig | undefined): string | undefined {
+  const requestId = config?.headers?.get(REQUEST_ID_HEADER);
+  return typeof requestId === 'string' ? requestId : undefined;
+}
+
 // Add request interceptor for debugging
 api.interceptors.request.use(
-  (config) => {
-    debug.network.request(config.url || '', config.method || 'unknown', config.data);
+  async (config) => {
+    if (isBrowser && config.url !== '/v1/session') {
+      await ensureSession();
+    }
+    // Retries reuse the config, so every attempt at a request shares its ID in the server's logs
+    if (!config.headers.has(REQUEST_ID_HEADER)) {
+      config.headers.set(REQUEST_ID_HEADER, createRequestId());
+    }
+    debug.network.request(config.url || '', config.method || 'unknown', config.data, requestIdOf(config));
     // Log full request URL for debugging
     const fullUrl = `${config.baseURL}${config.url}`;
     console.log(`Making API request to: ${fullUrl}`);
@@ -90,7 +205,7 @@ api.interceptors.request.use(
     return config;
   },
   (error) => {
-    debug.network.error(error.config?.url || 'unknown', error);
+    debug.network.error(error.config?.url || 'unknown', error, requestIdOf(error.config));
     return Promise.reject(error);
   }
 );
@@ -98,32 +213,300 @@ api.interceptors.request.use(
 // Add response interceptor for debugging
 api.interceptors.response.use(
   (response) => {
-    debug.network.response(response.config.url || '', response.status, response.data);
+    debug.network.response(response.config.url || '', response.status, response.data, requestIdOf(response.config));
     return response;
   },
   (error) => {
     if (axios.isAxiosError(error) && error.response) {
       debug.network.error(
         error.config?.url || 'unknown',
-        `${error.response.status}: ${JSON.stringify(error.response.data)}`
+        `${error.response.status}: ${JSON.stringify(error.response.data)}`,
+        requestIdOf(error.config)
       );
     } else {
-      debug.network.error(error.config?.url || 'unknown', error);
+      debug.network.error(error.config?.url || 'unknown', error, requestIdOf(error.config));
+    }
+
+    // The server may have restarted and forgotten our session; start a new one and try once more
+    const config: RetryableConfig | undefined = axios.isAxiosError(error) ? error.config : undefined;
+    if (
+      isBrowser && config && error.response?.status === 401 &&
+      config.url !== '/v1/session' && !config.sessionRetried
+    ) {
+      config.sessionRetried = true;
+      session = null;
+      return api.request(config);
+    }
+
+    // Over the rate limit: wait as long as the server asks, then try again
+    const wait = config
+      ? rateLimitWait(error.response?.status, error.response?.headers['retry-after'], config.rateLimitRetries ?? 0)
+      : null;
+    if (config && wait !== null) {
+      console.log(`Rate limited, retrying in ${Math.ceil(wait / 1000)}s`);
+      config.rateLimitRetries = (config.rateLimitRetries ?? 0) + 1;
+      return new Promise(resolve => setTimeout(resolve, wait)).then(() => api.request(config));
     }
     return Promise.reject(error);
   }
 );
 
 /**
- * Send an image for calorie estimation (mock version without OpenAI dependency)
+ * Send an image for calorie estimation and wait for the whole answer
+ * @param base64Image Base64 encoded image data
+ * @param samples Independent estimates to aggregate into a calorie range
+ * @param reference Object of known size in the photo
+ * @returns Calorie estimation results
+ */
+export async function estimateCalories(
+  base64Image: string,
+  samples?: number,
+  reference?: ScaleReference
+): Promise<CalorieEstimation> {
+  try {
+    const response = await api.post<ApiResponse<CalorieEstimation>>(
+      '/v1/estimates/image',
+      { image: base64Image, samples, reference }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw errorFromResponse(response.data, response.status, 'Image estimation failed');
+    }
+    
+    return response.data.data;
+  } catch (error) {
+    console.error('Error in image estimation:', error);
+    
+    if (axios.isAxiosError(error)) {
+      throw toApiError(error, 'Network error during image estimation');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Whether this browser can read a streamed response body
+ */
+export function supportsStreaming(): boolean {
+  return isBrowser && typeof ReadableStream !== 'undefined' && typeof TextDecoder !== 'undefined';
+}
+
+/**
+ * Send an image for estimation over the streaming endpoint, reporting each
+ * stage as it arrives
+ * @param base64Image Base64 encoded image data
+ * @param options Samples and scale reference, as for estimateCalories
+ * @param onEvent Called with every event, including the final result
+ * @returns Calorie estimation results
+ */
+export async function streamEstimation(
+  base64Image: string,
+  options: { samples?: number; reference?: ScaleReference },
+  onEvent: (event: EstimationEvent) => void
+): Promise<CalorieEstimation> {
+  const requestId = createRequestId();
+  const send = async () => {
+    await ensureSession();
+    debug.network.request('/v1/estimates/stream', 'post', undefined, requestId);
+    return fetch(`${apiBaseUrl}/v1/estimates/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        [REQUEST_ID_HEADER]: requestId,
+        ...(isIOSDevice ? { 'X-iOS-Client': 'true' } : {})
+      },
+      body: JSON.stringify({ image: base64Image, ...options }),
+    }).catch((error: Error) => {
+      throw new ApiError(error.message || 'Network error during streamed estimation', 500, 'network_error');
+    });
+  };
+
+  let response = await send();
+  if (response.status === 401) {
+    // As for the other requests, retry once with a fresh session
+    session = null;
+    response = await send();
+  }
+  for (let retries = 0; ; retries++) {
+    const wait = rateLimitWait(response.status, response.headers.get('Retry-After'), retries);
+    if (wait === null) {
+      break;
+    }
+    console.log(`Rate limited, retrying in ${Math.ceil(wait / 1000)}s`);
+    await new Promise(resolve => setTimeout(resolve, wait));
+    response = await send();
+  }
+
+  debug.network.response('/v1/estimates/stream', response.status, undefined, requestId);
+  if (!response.ok || !response.body) {
+    // Refusals such as a spent quota come back as a JSON error before the stream opens
+    const refusal: ApiResponse<null> | null = await response.json().catch(() => null);
+    throw errorFromResponse(
+      refusal,
+      response.status || 500,
+      `Streaming estimation failed (${response.statusText || 'no response body'})`
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read().catch((error: Error) => {
+      throw new ApiError(error.message || 'The estimation stream was interrupted', 500, 'network_error');
+    });
+    if (done) {
+      break;
+    }
+
+    const parsed = parseEvents(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+    for (const event of parsed.events) {
+      onEvent(event);
+      if (event.stage === 'result') {
+        return event.data;
+      }
+      if (event.stage === 'error') {
+        debug.network.error('/v1/estimates/stream', `${event.status}: ${event.error}`, requestId);
+        const error = new ApiError(event.error, event.status, event.code);
+        error.requestId = event.requestId;
+        throw error;
+      }
+    }
+  }
+
+  // The connection dropped before the server finished
+  throw new ApiError('The estimation stream ended without a result', 502, 'network_error');
+}
+
+// How often a running job is checked, and how long to keep checking
+const JOB_POLL_INTERVAL = 2000;
+const JOB_POLL_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Start a background estimation job for an image
+ * @param base64Image Base64 encoded image data
+ * @param options Samples and scale reference, as for estimateCalories
+ * @returns The pending job
+ */
+export async function submitEstimationJob(
+  base64Image: string,
+  options: { samples?: number; reference?: ScaleReference } = {}
+): Promise<EstimationJob> {
+  try {
+    const response = await api.post<ApiResponse<EstimationJob>>('/v1/jobs', { image: base64Image, ...options });
+    
+    if (!response.data.success || !response.data.data) {
+      throw errorFromResponse(response.data, response.status, 'Could not start the estimation');
+    }
+    
+    return response.data.data;
+  } catch (error) {
+    console.error('Error starting estimation job:', error);
+    
+    if (axios.isAxiosError(error)) {
+      throw toApiError(error, 'Network error while starting the estimation');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Wait for an estimation job to finish. Dropped connections while polling
+ * are retried until the job has had its full time.
+ * @param id Job id
+ * @param onStatus Called with the job after every successful poll
+ * @returns The estimation once the job succeeds
+ */
+export async function pollEstimationJob(
+  id: string,
+  onStatus?: (job: EstimationJob) => void
+): Promise<CalorieEstimation> {
+  const deadline = Date.now() + JOB_POLL_TIMEOUT;
+
+  while (Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL));
+
+    let job: EstimationJob | undefined;
+    try {
+      const response = await api.get<ApiResponse<EstimationJob>>(`/v1/jobs/${id}`, { timeout: 15000 });
+      job = response.data.data;
+    } catch (error) {
+      // The job keeps running on the server, so only give up when it is gone
+      if (axios.isAxiosError(error) && error.response) {
+        throw errorFromResponse(error.response.data, error.response.status, 'Could not check the estimation');
+      }
+      debug.log(`Polling job ${id} failed, retrying:`, error);
+      continue;
+    }
+
+    if (!job) {
+      throw new ApiError('Could not check the estimation', 500);
+    }
+    onStatus?.(job);
+    if (job.status === 'succeeded' && job.result) {
+      return job.result;
+    }
+    if (job.status === 'failed') {
+      throw new ApiError(job.error || 'Estimation failed', job.statusCode || 500, job.code);
+    }
+  }
+
+  throw new ApiError('The estimation is taking too long. Please try again.', 408);
+}
+
+/**
+ * Estimate an image through a background job, polling for the result. The job
+ * id is remembered so resumeEstimationJob can collect it after a reload.
  * @param base64Image Base64 encoded image data
+ * @param options Samples and scale reference, as for estimateCalories
+ * @param onStatus Called with the job after every successful poll
  * @returns Calorie estimation results
  */
-export async function estimateCalories(base64Image: string): Promise<CalorieEstimation> {
-  console.log('Using mock estimation without OpenAI API dependency');
-  
-  // Simply use the test function for all devices
-  return testIosEndpoint(base64Image);
+export async function estimateWithJob(
+  base64Image: string,
+  options: { samples?: number; reference?: ScaleReference },
+  onStatus?: (job: EstimationJob) => void
+): Promise<CalorieEstimation> {
+  const job = await submitEstimationJob(base64Image, options);
+  savePendingJob(job.id);
+  onStatus?.(job);
+  return collectJob(job.id, onStatus);
+}
+
+/**
+ * Pick up an estimation job left running by an earlier page load
+ * @param onStatus Called with the job after every successful poll
+ * @returns The estimation, or null when no job was pending
+ */
+export async function resumeEstimationJob(
+  onStatus?: (job: EstimationJob) => void
+): Promise<CalorieEstimation | null> {
+  const id = loadPendingJob();
+  if (!id) {
+    return null;
+  }
+  console.log('Resuming estimation job', id);
+  return collectJob(id, onStatus);
+}
+
+// Poll a job and forget it once it has an outcome. A job another session
+// started is kept, since its result may still be collected until it expires.
+async function collectJob(id: string, onStatus?: (job: EstimationJob) => void): Promise<CalorieEstimation> {
+  try {
+    const result = await pollEstimationJob(id, onStatus);
+    clearPendingJob();
+    return result;
+  } catch (error) {
+    if (!(error instanceof ApiError && error.code === 'not_job_owner')) {
+      clearPendingJob();
+    }
+    throw error;
+  }
 }
 
 /**
@@ -136,47 +519,158 @@ export function estimateCaloriesWithErrorHandling(base64Image: string) {
 }
 
 /**
- * Test function for iOS devices that uses a simplified endpoint
- * @param base64Image Base64 encoded image data
- * @returns Mock calorie estimation results
+ * Send a meal description for calorie estimation
+ * @param description Free-text description of the meal
+ * @param samples Independent estimates to aggregate into a calorie range
+ * @returns Calorie estimation results
  */
-export async function testIosEndpoint(base64Image: string): Promise<CalorieEstimation> {
-  console.log('Testing iOS-specific endpoint with direct API call');
-  
+export async function estimateCaloriesFromText(description: string, samples?: number): Promise<CalorieEstimation> {
   try {
-    // Add random cache buster to avoid caching issues on iOS
-    const cacheBuster = Date.now();
     const response = await api.post<ApiResponse<CalorieEstimation>>(
-      `/ios-test?_=${cacheBuster}`,
-      { image: base64Image },
-      {
-        // Explicitly set headers for iOS
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json',
-          'X-iOS-Client': 'true',
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache'
-        },
-        timeout: 30000, // 30 seconds should be enough for the test endpoint
-        withCredentials: false // Explicitly disable for CORS
-      }
+      '/v1/estimates/text',
+      { description, samples },
+      { timeout: 60000 }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw errorFromResponse(response.data, response.status, 'Text estimation failed');
+    }
+    
+    return response.data.data;
+  } catch (error) {
+    console.error('Error in text estimation:', error);
+    
+    if (axios.isAxiosError(error)) {
+      throw toApiError(error, 'Network error during text estimation');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Send several images for estimation in one request, such as a day's meals
+ * @param images Images with client-chosen ids
+ * @param samples Independent estimates per image to aggregate into a calorie range
+ * @returns Per-image results or errors, with totals over the successful ones
+ */
+export async function estimateBatch(images: BatchImage[], samples?: number): Promise<BatchEstimationResult> {
+  try {
+    const response = await api.post<ApiResponse<BatchEstimationResult>>(
+      '/v1/estimates/batch',
+      { images, samples },
+      // Images run a few at a time, so allow for several rounds
+      { timeout: 300000 }
     );
     
     if (!response.data.success || !response.data.data) {
-      throw new ApiError(response.data.error || 'iOS test endpoint returned error', response.status);
+      throw errorFromResponse(response.data, response.status, 'Batch estimation failed');
     }
     
     return response.data.data;
   } catch (error) {
-    console.error('Error in iOS test endpoint:', error);
+    console.error('Error in batch estimation:', error);
     
     if (axios.isAxiosError(error)) {
-      const statusCode = error.response?.status || 500;
-      const errorMessage = error.response?.data?.error || error.message || 'Network error in test endpoint';
-      throw new ApiError(errorMessage, statusCode);
+      throw toApiError(error, 'Network error during batch estimation');
     }
     
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Send a batch recipe for per-serving calorie estimation
+ * @param ingredients Ingredient list with quantities, one per line
+ * @param servings Number of servings the recipe makes
+ * @returns Estimation with calories and macros per serving
+ */
+export async function estimateRecipe(ingredients: string, servings: number): Promise<CalorieEstimation> {
+  try {
+    const response = await api.post<ApiResponse<CalorieEstimation>>(
+      '/v1/estimates/recipe',
+      { ingredients, servings },
+      { timeout: 90000 }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw errorFromResponse(response.data, response.status, 'Recipe estimation failed');
+    }
+    
+    return response.data.data;
+  } catch (error) {
+    console.error('Error in recipe estimation:', error);
+    
+    if (axios.isAxiosError(error)) {
+      throw toApiError(error, 'Network error during recipe estimation');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Recalculate an estimation after the user edited, added or removed items
+ * @param estimation Estimation with the edits applied
+ * @param itemIndex Index of the edited or added item; omit after a removal
+ * @returns Estimation with the item re-derived and totals updated
+ */
+export async function recalculateEstimation(
+  estimation: CalorieEstimation,
+  itemIndex?: number
+): Promise<CalorieEstimation> {
+  try {
+    const response = await api.post<ApiResponse<CalorieEstimation>>(
+      '/v1/estimates/recalculate',
+      { estimation, itemIndex },
+      { timeout: 60000 }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw errorFromResponse(response.data, response.status, 'Recalculation failed');
+    }
+    
+    return response.data.data;
+  } catch (error) {
+    console.error('Error recalculating estimation:', error);
+    
+    if (axios.isAxiosError(error)) {
+      throw toApiError(error, 'Network error during recalculation');
+    }
+    
+    throw error;
+  }
+}
+
+/**
+ * Refine an estimation with answers to its clarifying questions
+ * @param estimation Preliminary estimation the questions came with
+ * @param answers The user's answers
+ * @returns Refined calorie estimation
+ */
+export async function refineEstimation(
+  estimation: CalorieEstimation,
+  answers: ClarifyingAnswer[]
+): Promise<CalorieEstimation> {
+  try {
+    const response = await api.post<ApiResponse<CalorieEstimation>>(
+      '/v1/estimates/refine',
+      { estimation, answers },
+      { timeout: 90000 }
+    );
+    
+    if (!response.data.success || !response.data.data) {
+      throw errorFromResponse(response.data, response.status, 'Refinement failed');
+    }
+    
+    return response.data.data;
+  } catch (error) {
+    console.error('Error refining estimation:', error);
+    
+    if (axios.isAxiosError(error)) {
+      throw toApiError(error, 'Network error during refinement');
+    }
+    
+    throw error;
+  }
+}
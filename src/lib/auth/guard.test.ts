@@ -0,0 +1,53 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config';
+import { AuthError } from '../error';
+import { authenticate, isSameOrigin } from './guard';
+import { SESSION_COOKIE } from './session';
+
+function sessionRequest(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/v1/session', { method: 'POST', headers });
+}
+
+describe('isSameOrigin', () => {
+  beforeEach(() => {
+    config.auth.publicOrigin = '';
+    config.auth.trustProxy = false;
+  });
+
+  it('accepts an Origin naming the host', () => {
+    assert.equal(isSameOrigin(sessionRequest({ origin: 'https://calories.test', host: 'calories.test' })), true);
+  });
+
+  it('refuses a request without an Origin, whatever Sec-Fetch-Site says', () => {
+    assert.equal(isSameOrigin(sessionRequest({ host: 'calories.test', 'sec-fetch-site': 'same-origin' })), false);
+  });
+
+  it('refuses a cross-site request', () => {
+    const request = sessionRequest({ origin: 'https://calories.test', host: 'calories.test', 'sec-fetch-site': 'cross-site' });
+    assert.equal(isSameOrigin(request), false);
+  });
+
+  it('ignores X-Forwarded-Host unless a proxy is trusted to set it', () => {
+    const headers = { origin: 'https://evil.test', host: 'calories.test', 'x-forwarded-host': 'evil.test' };
+    assert.equal(isSameOrigin(sessionRequest(headers)), false);
+
+    config.auth.trustProxy = true;
+    assert.equal(isSameOrigin(sessionRequest(headers)), true);
+  });
+
+  it('only accepts the public origin once one is configured', () => {
+    config.auth.publicOrigin = 'https://calories.test';
+    assert.equal(isSameOrigin(sessionRequest({ origin: 'https://calories.test', host: 'internal:3000' })), true);
+    assert.equal(isSameOrigin(sessionRequest({ origin: 'https://evil.test', host: 'evil.test' })), false);
+    assert.equal(isSameOrigin(sessionRequest({ origin: 'http://calories.test', host: 'calories.test' })), false);
+  });
+});
+
+describe('authenticate', () => {
+  it('treats a session cookie that is not validly encoded as missing', () => {
+    const request = new Request('http://localhost/api/v1/jobs', { headers: { cookie: `${SESSION_COOKIE}=%E0%A4%A` } });
+    assert.throws(() => authenticate(request, 'estimate'), (error: unknown) =>
+      error instanceof AuthError && error.code === 'unauthenticated');
+  });
+});
@@ -0,0 +1,179 @@
+import { NextResponse } from 'next/server';
+import { config } from '../config';
+import { AuthError, QuotaExceededError, RateLimitedError } from '../error';
+import { EstimationProvider } from '../providers';
+import { enforceRateLimit } from '../ratelimit';
+import { clientKeyFor, providerWithinBudget } from '../usage/budget';
+import { ApiResponse, ApiScope, Principal } from '../types';
+import { findApiKey } from './keys';
+import { SESSION_COOKIE, verifySession } from './session';
+
+// Ways the guard can refuse a request
+export type Denial = AuthError | RateLimitedError | QuotaExceededError;
+
+// The web app's own pages may estimate, and nothing more. Any client can
+// start a session, so it must never unlock more than the rate limited routes.
+const SESSION_SCOPES: ApiScope[] = ['estimate'];
+
+// A cookie's value, or null when it is missing or not validly encoded
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return null;
+  }
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim());
+      } catch (error) {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+function bearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * The id of the valid session a request's cookie carries
+ * @param request The incoming request
+ * @returns The session id, or null without a cookie or when it is forged or expired
+ */
+export function sessionIdOf(request: Request): string | null {
+  const token = readCookie(request, SESSION_COOKIE);
+  return token ? verifySession(token) : null;
+}
+
+/**
+ * Whether a browser request comes from one of our own pages: its Origin
+ * must be PUBLIC_ORIGIN, or without it name the host the request was sent
+ * to. Browsers always send Origin on POSTs and pages can't change it.
+ * Sec-Fetch-Site may only veto, never vouch, since it takes no browser to
+ * send a header. Neither proves anything about non-browser clients, which
+ * can send whatever they like.
+ * @param request The incoming request
+ */
+export function isSameOrigin(request: Request): boolean {
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if (fetchSite && fetchSite !== 'same-origin') {
+    return false;
+  }
+  const origin = request.headers.get('origin');
+  if (!origin) {
+    return false;
+  }
+  if (config.auth.publicOrigin) {
+    return origin === config.auth.publicOrigin;
+  }
+
+  // X-Forwarded-Host is only the proxy's when we're told a proxy sets it; otherwise it's the client's
+  const host = (config.auth.trustProxy && request.headers.get('x-forwarded-host')) || request.headers.get('host');
+  if (!host) {
+    return false;
+  }
+  try {
+    return new URL(origin).host === host;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Whether a principal may use a scope; admin may use them all
+ * @param principal Who made the request
+ * @param scope Scope the route needs
+ */
+export function hasScope(principal: Principal, scope: ApiScope): boolean {
+  return principal.scopes.includes(scope) || principal.scopes.includes('admin');
+}
+
+/**
+ * The shared guard every API route runs first. Callers authenticate with an
+ * issued key (`Authorization: Bearer <key>`), or from our own pages with
+ * the session cookie set by `POST /api/v1/session`.
+ * @param request The incoming request
+ * @param scope Scope the route needs
+ * @returns Who made the request
+ * @throws AuthError when the credentials are missing, unknown or lack the scope
+ */
+export function authenticate(request: Request, scope: ApiScope): Principal {
+  let principal: Principal | null = null;
+
+  const key = bearerToken(request);
+  if (key) {
+    const apiKey = findApiKey(key);
+    if (!apiKey) {
+      throw new AuthError('Invalid API key', 'unauthenticated');
+    }
+    principal = { kind: 'api-key', id: apiKey.id, scopes: apiKey.scopes };
+  } else {
+    const sessionId = sessionIdOf(request);
+    if (sessionId) {
+      principal = { kind: 'session', id: sessionId, scopes: SESSION_SCOPES };
+    }
+  }
+
+  if (!principal) {
+    throw new AuthError('An API key is required. Send it as "Authorization: Bearer <key>".', 'unauthenticated');
+  }
+  if (!hasScope(principal, scope)) {
+    throw new AuthError(`This ${principal.kind === 'api-key' ? 'API key' : 'session'} lacks the "${scope}" scope`, 'forbidden');
+  }
+  return principal;
+}
+
+/**
+ * Whether an error is the guard refusing a request
+ * @param error Error thrown by authenticate or authorizeEstimation
+ */
+export function isDenial(error: unknown): error is Denial {
+  return error instanceof AuthError || error instanceof RateLimitedError || error instanceof QuotaExceededError;
+}
+
+/**
+ * Guard for routes that call the provider: the caller needs the estimate
+ * scope and must be within its rate limit, and spend caps are checked
+ * before anything reaches the provider
+ * @param request The incoming request
+ * @returns Who made the request, the key their usage counts against, and the provider to use
+ * @throws A Denial when the request may not run
+ */
+export async function authorizeEstimation(
+  request: Request
+): Promise<{ principal: Principal; client: string; provider: EstimationProvider }> {
+  const principal = authenticate(request, 'estimate');
+  const client = clientKeyFor(request, principal);
+  await enforceRateLimit(request, client);
+  const provider = await providerWithinBudget(client);
+  return { principal, client, provider };
+}
+
+/**
+ * The response a route answers with when the guard refuses a request
+ * @param error The refusal
+ * @param requestId ID of the refused request, for the body
+ * @returns 401, 403 or 429 response carrying the error code
+ */
+export function deniedResponse(error: Denial, requestId?: string): NextResponse {
+  const response = NextResponse.json({
+    success: false,
+    error: error.message,
+    code: error.code,
+    requestId,
+  } as ApiResponse<null>, { status: error.statusCode });
+
+  if (error instanceof AuthError) {
+    if (error.statusCode === 401) {
+      response.headers.set('WWW-Authenticate', 'Bearer');
+    }
+  } else {
+    response.headers.set('Retry-After', String(error.retryAfterSeconds));
+  }
+  return response;
+}
@@ -0,0 +1,70 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { config } from '../config';
+import { createLogger } from '../logger';
+import { ApiScope } from '../types';
+
+const log = createLogger('auth');
+
+export interface ApiKey {
+  id: string;
+  hash: string; // SHA-256 of the key, hex
+  scopes: ApiScope[];
+}
+
+const apiKeysSchema = z.array(z.object({
+  id: z.string().min(1),
+  hash: z.string().regex(/^[0-9a-f]{64}$/i, "hash must be a hex SHA-256 digest"),
+  scopes: z.array(z.enum(['estimate', 'admin'])).min(1),
+}));
+
+// A broken key list locks every key out rather than letting anything through
+function parseApiKeys(json: string): { keys: ApiKey[]; problem: string | null } {
+  if (!json) {
+    return { keys: [], problem: null };
+  }
+  try {
+    const result = apiKeysSchema.safeParse(JSON.parse(json));
+    if (result.success) {
+      return { keys: result.data, problem: null };
+    }
+    log.error('Ignoring API_KEYS, it does not match the expected shape', { reason: result.error.message });
+    return { keys: [], problem: 'API_KEYS does not match the expected shape' };
+  } catch (error) {
+    log.error('Ignoring API_KEYS, it is not valid JSON', { error });
+    return { keys: [], problem: 'API_KEYS is not valid JSON' };
+  }
+}
+
+const { keys: apiKeys, problem: apiKeysProblem } = parseApiKeys(config.auth.apiKeys);
+
+/**
+ * Why API_KEYS was ignored, for the readiness check
+ * @returns The problem, or null when the key list was read (or is empty)
+ */
+export function apiKeysConfigProblem(): string | null {
+  return apiKeysProblem;
+}
+
+/**
+ * Hash an API key the way it is stored in API_KEYS. Keys are long and
+ * random, so a fast unsalted hash is enough.
+ * @param key The key as handed to the client
+ * @returns SHA-256 of the key, hex
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Look up an issued key
+ * @param key Key presented by the caller
+ * @returns The matching key, or null when it isn't one we issued
+ */
+export function findApiKey(key: string): ApiKey | null {
+  const presented = Buffer.from(hashApiKey(key), 'hex');
+  return apiKeys.find(apiKey => {
+    const stored = Buffer.from(apiKey.hash, 'hex');
+    return timingSafeEqual(stored, presented);
+  }) ?? null;
+}
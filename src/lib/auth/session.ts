@@ -0,0 +1,59 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../config';
+import { createLogger } from '../logger';
+import { SessionInfo } from '../types';
+
+const log = createLogger('auth');
+
+export const SESSION_COOKIE = 'calorie_session';
+
+// Kept on globalThis so every route bundle signs with the same fallback secret
+const globalSession = globalThis as typeof globalThis & { __sessionSecret?: string };
+
+function sessionSecret(): string {
+  if (config.auth.sessionSecret) {
+    return config.auth.sessionSecret;
+  }
+  if (!globalSession.__sessionSecret) {
+    log.warn('SESSION_SECRET is not set, browser sessions will end on restart');
+    globalSession.__sessionSecret = randomBytes(32).toString('hex');
+  }
+  return globalSession.__sessionSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', sessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Start a browser session, or renew one. The token is
+ * `<expiry ms>.<id>.<signature>`, so it can be checked without storing
+ * sessions anywhere. A renewed session keeps its id, and with it the jobs
+ * it started.
+ * @param id Id of the session being renewed; a new random one when not given
+ * @returns Token for the session cookie and when it expires
+ */
+export function createSession(id: string = randomBytes(16).toString('base64url')): SessionInfo & { token: string } {
+  const expiresAt = Date.now() + config.auth.sessionTtlMs;
+  const payload = `${expiresAt}.${id}`;
+  return { token: `${payload}.${sign(payload)}`, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Check a session token
+ * @param token Token from the session cookie
+ * @returns The session id, or null when the token is forged or expired
+ */
+export function verifySession(token: string): string | null {
+  const [expiresAt, id, signature] = token.split('.');
+  if (!expiresAt || !id || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${expiresAt}.${id}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+  return Number(expiresAt) > Date.now() ? id : null;
+}
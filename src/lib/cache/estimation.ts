@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { hammingDistance, perceptualHash } from '../image-hash';
+import { createLogger } from '../logger';
+import { EstimationInput, EstimationProvider } from '../providers';
+import { SYSTEM_PROMPT, buildUserPrompt } from '../providers/prompt';
+import { CalorieEstimationResult } from '../types';
+import { getCacheStore } from './index';
+import { CacheKey } from './types';
+
+const log = createLogger('cache');
+
+type ImageInput = Extract<EstimationInput, { kind: 'image' }>;
+
+// Estimations still running, so duplicates of them share one provider call
+const inFlight: { key: CacheKey; estimation: Promise<CalorieEstimationResult> }[] = [];
+
+/**
+ * Cache key for an image estimation
+ * @returns The key, or null when the image can't be hashed
+ */
+async function cacheKey(input: ImageInput, samples: number, provider: EstimationProvider): Promise<CacheKey | null> {
+  try {
+    const imageHash = await perceptualHash(input.image);
+    const settings = createHash('sha256')
+      .update(JSON.stringify([provider.name, provider.version, SYSTEM_PROMPT, buildUserPrompt(input), samples]))
+      .digest('hex')
+      .slice(0, 16);
+    return { settings, imageHash };
+  } catch (error) {
+    log.warn('Could not hash image, skipping cache', { error });
+    return null;
+  }
+}
+
+function findInFlight(key: CacheKey): Promise<CalorieEstimationResult> | null {
+  const match = inFlight.find(entry =>
+    entry.key.settings === key.settings &&
+    hammingDistance(entry.key.imageHash, key.imageHash) <= config.cache.maxDistance
+  );
+  return match ? match.estimation : null;
+}
+
+/**
+ * Serve an image estimation from the cache, or run it and cache the result.
+ * Near-identical images count as the same, and concurrent requests for the
+ * same image wait for the first one instead of calling the provider again.
+ * Failures are not cached.
+ * @param input The image input
+ * @param samples Number of samples the estimation runs
+ * @param provider Provider the estimation runs on
+ * @param run Performs the estimation on a miss
+ * @returns The estimation, with `cacheHit` set
+ */
+export async function withEstimationCache(
+  input: ImageInput,
+  samples: number,
+  provider: EstimationProvider,
+  run: () => Promise<CalorieEstimationResult>
+): Promise<CalorieEstimationResult> {
+  const store = getCacheStore();
+  const key = store && await cacheKey(input, samples, provider);
+  if (!store || !key) {
+    return run();
+  }
+
+  const cached = await store.get(key, config.cache.maxDistance);
+  if (cached) {
+    log.info('Cache hit', { imageHash: key.imageHash });
+    return { ...cached, cacheHit: true };
+  }
+
+  const pending = findInFlight(key);
+  if (pending) {
+    log.info('Joining in-flight estimation', { imageHash: key.imageHash });
+    return { ...await pending, cacheHit: true };
+  }
+
+  const entry = {
+    key,
+    estimation: run().then(async result => {
+      try {
+        await store.set(key, result, config.cache.ttlMs);
+      } catch (error) {
+        log.warn('Could not store result', { error });
+      }
+      return result;
+    }),
+  };
+  inFlight.push(entry);
+
+  try {
+    return { ...await entry.estimation, cacheHit: false };
+  } finally {
+    inFlight.splice(inFlight.indexOf(entry), 1);
+  }
+}
@@ -0,0 +1,25 @@
+import { config } from '../config';
+import { CacheStore } from './types';
+import { memoryCacheStore } from './memory';
+
+export type { CacheStore } from './types';
+
+const stores: Record<string, CacheStore> = {
+  [memoryCacheStore.name]: memoryCacheStore,
+};
+
+/**
+ * Get a cache store by name
+ * @param name Store name, defaults to the configured store
+ * @returns The matching store, or null when caching is off
+ */
+export function getCacheStore(name: string = config.cache.store): CacheStore | null {
+  if (name === 'off') {
+    return null;
+  }
+  const store = stores[name];
+  if (!store) {
+    throw new Error(`Unknown cache store "${name}". Available stores: ${Object.keys(stores).join(', ')}, off`);
+  }
+  return store;
+}
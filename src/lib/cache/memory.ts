@@ -0,0 +1,63 @@
+import { config } from '../config';
+import { hammingDistance } from '../image-hash';
+import { CalorieEstimationResult } from '../types';
+import { CacheKey, CacheStore } from './types';
+
+interface Entry {
+  key: CacheKey;
+  value: CalorieEstimationResult;
+  expiresAt: number;
+}
+
+// Kept on globalThis so every route bundle, and dev-mode reloads, share one map
+const globalCache = globalThis as typeof globalThis & { __estimationCache?: Map<string, Entry> };
+const entries = globalCache.__estimationCache ?? (globalCache.__estimationCache = new Map());
+
+function entryId({ settings, imageHash }: CacheKey): string {
+  return `${settings}:${imageHash}`;
+}
+
+/**
+ * Results held in process memory. Lookups scan the entries, which is cheap
+ * at the configured size. Maps iterate in insertion order, so the first
+ * entry is the oldest and is evicted when the cache is full.
+ */
+export const memoryCacheStore: CacheStore = {
+  name: 'memory',
+
+  async get(key, maxDistance) {
+    const now = Date.now();
+    let best: CalorieEstimationResult | null = null;
+    let bestDistance = maxDistance + 1;
+
+    entries.forEach((entry, id) => {
+      if (entry.expiresAt <= now) {
+        entries.delete(id);
+        return;
+      }
+      if (entry.key.settings !== key.settings) {
+        return;
+      }
+      const distance = hammingDistance(entry.key.imageHash, key.imageHash);
+      if (distance < bestDistance) {
+        best = entry.value;
+        bestDistance = distance;
+      }
+    });
+
+    return best;
+  },
+
+  async set(key, value, ttlMs) {
+    const id = entryId(key);
+    entries.delete(id);
+    entries.set(id, { key, value, expiresAt: Date.now() + ttlMs });
+    while (entries.size > config.cache.maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      entries.delete(oldest);
+    }
+  },
+};
@@ -0,0 +1,24 @@
+import { CalorieEstimationResult } from '../types';
+
+/**
+ * What a cached estimation is looked up by. `settings` digests everything
+ * besides the image that shapes the answer; `imageHash` is a perceptual hash.
+ */
+export interface CacheKey {
+  settings: string;
+  imageHash: string;
+}
+
+/**
+ * Storage for cached estimation results. Entries expire after their time to
+ * live; stores may also evict earlier to bound their size.
+ */
+export interface CacheStore {
+  name: string;
+  /**
+   * Returns the live entry with the same settings whose image hash is closest,
+   * if it is within `maxDistance` bits, otherwise null
+   */
+  get(key: CacheKey, maxDistance: number): Promise<CalorieEstimationResult | null>;
+  set(key: CacheKey, value: CalorieEstimationResult, ttlMs: number): Promise<void>;
+}
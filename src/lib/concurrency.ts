@@ -0,0 +1,28 @@
+/**
+ * Map over items with at most `limit` calls in flight at once. Results keep
+ * the order of the input; a rejected call rejects the whole map, so callers
+ * that want per-item errors should catch inside `fn`.
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls
+ * @param fn Async function applied to each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -2,6 +2,111 @@ export const config = {
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
   },
+  estimation: {
+    // Which provider backs the estimate routes: 'openai', 'mock' or 'local'
+    provider: process.env.ESTIMATION_PROVIDER || 'openai',
+    openaiModel: process.env.OPENAI_MODEL || 'gpt-4o',
+    localUrl: process.env.LOCAL_PROVIDER_URL || 'http://localhost:8080/estimate',
+    localTimeout: Number(process.env.LOCAL_PROVIDER_TIMEOUT_MS) || 60000,
+    // Total provider calls per estimation, including re-asks after invalid output
+    maxAttempts: Number(process.env.ESTIMATION_MAX_ATTEMPTS) || 2,
+    // Clarifying questions are only passed on below this confidence (0-1)
+    clarifyBelowConfidence: Number(process.env.CLARIFY_BELOW_CONFIDENCE) || 0.9,
+    // Upper bound on independent estimates a request may ask for
+    maxSamples: Number(process.env.ESTIMATION_MAX_SAMPLES) || 5,
+  },
+  nutrition: {
+    // Ground item values in the bundled reference dataset unless NUTRITION_DB=off
+    enabled: process.env.NUTRITION_DB !== 'off',
+    // Minimum name similarity (0-1) for a database match to be trusted
+    matchThreshold: Number(process.env.NUTRITION_MATCH_THRESHOLD) || 0.8,
+  },
+  batch: {
+    // Most images a single batch request may contain
+    maxImages: Number(process.env.BATCH_MAX_IMAGES) || 10,
+    // Images estimated at the same time within one batch
+    concurrency: Number(process.env.BATCH_CONCURRENCY) || 3,
+  },
+  cache: {
+    // Where image estimations are cached: 'memory', or 'off' to disable
+    store: process.env.ESTIMATION_CACHE || 'memory',
+    ttlMs: Number(process.env.ESTIMATION_CACHE_TTL_MS) || 24 * 60 * 60 * 1000,
+    // Images whose 64-bit perceptual hashes differ in at most this many bits count as the same
+    maxDistance: Number(process.env.ESTIMATION_CACHE_MAX_DISTANCE ?? 4),
+    // Oldest entries are evicted beyond this many
+    maxEntries: Number(process.env.ESTIMATION_CACHE_MAX_ENTRIES) || 500,
+  },
+  usage: {
+    // Where usage records for GET /api/v1/usage are kept: 'memory' or 'file'
+    store: process.env.USAGE_STORE || 'memory',
+    // JSON-lines file for the file store, relative to the working directory
+    file: process.env.USAGE_LOG_FILE || '.data/usage.jsonl',
+    // Records older than this are left out of reports and dropped from memory
+    retentionDays: Number(process.env.USAGE_RETENTION_DAYS) || 90,
+    // JSON price table overriding the defaults, in USD per million tokens,
+    // e.g. {"gpt-4o": {"prompt": 2.5, "completion": 10}}
+    prices: process.env.MODEL_PRICES || '',
+  },
+  rateLimit: {
+    // Where token buckets are kept: 'memory', or 'off' to disable
+    store: process.env.RATE_LIMIT_STORE || 'memory',
+    // Requests a client may make in a burst, and how many it regains per minute
+    burst: Number(process.env.RATE_LIMIT_BURST) || 20,
+    perMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 10,
+  },
+  budget: {
+    // Spend cap across all clients per UTC day, in USD; 0 leaves it off
+    dailyUsd: Number(process.env.DAILY_BUDGET_USD) || 0,
+    // Quotas per client key per UTC day; 0 leaves a quota off
+    clientDailyRequests: Number(process.env.CLIENT_DAILY_REQUESTS) || 0,
+    clientDailyUsd: Number(process.env.CLIENT_DAILY_BUDGET_USD) || 0,
+    // What a request over a cap gets: 'reject' (429), 'cheaper-model' or 'mock'
+    onExceeded: process.env.BUDGET_EXCEEDED_ACTION || 'reject',
+    // OpenAI model used by 'cheaper-model'
+    fallbackModel: process.env.BUDGET_FALLBACK_MODEL || 'gpt-4o-mini',
+  },
+  auth: {
+    // Issued API keys as JSON, hashed so the keys themselves are never stored:
+    // [{"id": "ios-app", "hash": "<sha256 hex of the key>", "scopes": ["estimate"]}]
+    apiKeys: process.env.API_KEYS || '',
+    // Signs browser session cookies. Without it a random secret is used, so
+    // sessions end on restart and aren't shared between instances
+    sessionSecret: process.env.SESSION_SECRET || '',
+    sessionTtlMs: Number(process.env.SESSION_TTL_MS) || 12 * 60 * 60 * 1000,
+    // Origin our own pages are served from, such as "https://calories.example.com".
+    // Only requests with this Origin get a session. Without it the Host header is used
+    publicOrigin: (process.env.PUBLIC_ORIGIN || '').replace(/\/$/, ''),
+    // Whether a proxy in front of the app sets X-Forwarded-Host, so it names the
+    // host the browser asked for. Vercel's does; elsewhere set TRUST_PROXY=true
+    trustProxy: process.env.TRUST_PROXY === 'true' || Boolean(process.env.VERCEL),
+  },
+  jobs: {
+    // Where estimation jobs are kept: 'memory' or 'file'
+    store: process.env.JOB_STORE || 'memory',
+    // Directory for the file store, relative to the working directory
+    dir: process.env.JOB_STORE_DIR || '.data/jobs',
+    // Finished jobs are kept this long so a reconnecting client can still collect them
+    ttlMs: Number(process.env.JOB_TTL_MS) || 60 * 60 * 1000,
+  },
+  cors: {
+    // Other sites allowed to call the API from a browser, comma-separated
+    // origins such as "https://app.example.com". "*" allows any origin, but
+    // then without cookies. Our own pages are same-origin and need no entry.
+    allowedOrigins: (process.env.CORS_ALLOWED_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim().replace(/\/$/, ''))
+      .filter(Boolean),
+    // How long browsers may cache a preflight, in seconds
+    maxAgeSeconds: Number(process.env.CORS_MAX_AGE) || 86400,
+  },
+  build: {
+    // Names the running build in GET /api/ready; on Vercel the deployed commit
+    version: process.env.BUILD_VERSION || process.env.VERCEL_GIT_COMMIT_SHA || '',
+  },
+  logging: {
+    // Least severe server log lines written: 'debug', 'info', 'warn' or 'error'
+    level: process.env.LOG_LEVEL || 'info',
+  },
   cloudinary: {
     cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
     apiKey: process.env.CLOUDINARY_API_KEY || '',
@@ -13,5 +118,8 @@ export const config = {
     baseUrl: typeof process !== 'undefined' && process.env.NEXT_PUBLIC_API_URL 
       ? process.env.NEXT_PUBLIC_API_URL 
       : '/api',
+    // HTTP date after which the unversioned routes may be removed, sent as
+    // their Sunset header, e.g. "Wed, 30 Jun 2027 23:59:59 GMT"
+    legacySunset: process.env.LEGACY_API_SUNSET || '',
   },
-}; 
\ No newline at end of file
+};
@@ -1,3 +1,19 @@
+/**
+ * A new ID to send as a request's X-Request-Id. The server logs under it
+ * and returns it, so the debug lines for a request can be matched with the
+ * server's.
+ */
+export function createRequestId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // randomUUID is only available on https pages and localhost
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+// Prefix for network lines, naming the request when its ID is known
+const tag = (requestId?: string) => requestId ? ` [${requestId}]` : '';
+
 /**
  * Debug logging utility for client-side debugging
  */
@@ -22,27 +38,27 @@ export const debug = {
   },
   
   network: {
-    request: (url: string, method: string, data?: any) => {
+    request: (url: string, method: string, data?: any, requestId?: string) => {
       if (process.env.NODE_ENV !== 'production') {
-        console.log(`🌐 Request: ${method} ${url}`);
+        console.log(`🌐 Request${tag(requestId)}: ${method} ${url}`);
         if (data) {
           console.log('  Data:', typeof data === 'string' ? `${data.substring(0, 50)}...` : data);
         }
       }
     },
     
-    response: (url: string, status: number, data?: any) => {
+    response: (url: string, status: number, data?: any, requestId?: string) => {
       if (process.env.NODE_ENV !== 'production') {
-        console.log(`🌐 Response: ${status} ${url}`);
+        console.log(`🌐 Response${tag(requestId)}: ${status} ${url}`);
         if (data) {
           console.log('  Data:', data);
         }
       }
     },
     
-    error: (url: string, error: any) => {
+    error: (url: string, error: any, requestId?: string) => {
       if (process.env.NODE_ENV !== 'production') {
-        console.error(`🌐 Network Error: ${url}`);
+        console.error(`🌐 Network Error${tag(requestId)}: ${url}`);
         if (error.response) {
           // The request was made and the server responded with a status code
           // that falls out of the range of 2xx
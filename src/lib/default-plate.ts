@@ -0,0 +1,38 @@
+import { PLATE_DIAMETER_MAX_CM, PLATE_DIAMETER_MIN_CM } from './scale-reference';
+
+const STORAGE_KEY = 'defaultPlateDiameterCm';
+
+/**
+ * Read the user's saved plate diameter from local storage
+ * @returns Diameter in centimetres, or null when none is saved
+ */
+export function loadDefaultPlate(): number | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    const saved = Number(window.localStorage.getItem(STORAGE_KEY));
+    return saved >= PLATE_DIAMETER_MIN_CM && saved <= PLATE_DIAMETER_MAX_CM ? saved : null;
+  } catch (error) {
+    // Private browsing on iOS can throw on storage access
+    console.warn('Unable to read default plate size:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the user's plate diameter to local storage
+ * @param diameterCm Diameter in centimetres
+ */
+export function saveDefaultPlate(diameterCm: number): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(diameterCm));
+  } catch (error) {
+    console.warn('Unable to save default plate size:', error);
+  }
+}
@@ -0,0 +1,104 @@
+import { ApiError } from './error';
+import { ErrorCode } from './types';
+
+// Languages the UI has error copy in; the first is the fallback
+const LOCALES = ['en'] as const;
+
+export type Locale = typeof LOCALES[number];
+
+/**
+ * What the UI offers after an error: 'now' shows a retry button, 'later'
+ * means the same request only works after the wait the message names, and
+ * 'never' means the input has to change first
+ */
+export type RetryPolicy = 'now' | 'later' | 'never';
+
+export interface ErrorDescription {
+  code: ErrorCode;
+  message: string; // For the user, in their language
+  retry: RetryPolicy;
+  checkConnection: boolean; // Worth suggesting a better connection, such as WiFi
+  requestId?: string; // To quote when reporting the problem
+}
+
+const MESSAGES: Record<Locale, Record<ErrorCode, string>> = {
+  en: {
+    invalid_request: "Something about that request wasn't right. Please check what you entered and try again.",
+    unauthenticated: 'Your session has ended. Please reload the page.',
+    forbidden: "You don't have access to this feature.",
+    not_found: 'That estimate has expired. Please start a new one.',
+    not_job_owner: "That estimate was started in another session, so it can't be shown here. Please start a new one.",
+    image_too_large: 'That image is too large. Please choose a smaller photo or take a new one.',
+    not_food: "We couldn't find any food in that photo. Please try a photo of your meal.",
+    content_rejected: "That image couldn't be analyzed. Please try a different photo of your meal.",
+    no_nutrition_data: "We don't have nutrition data for that item. Please try a more common name.",
+    rate_limited: "You're going a little fast. Please wait a moment and try again.",
+    daily_budget_exceeded: "We've reached today's limit for estimates. Please try again tomorrow.",
+    client_request_quota_exceeded: "You've used all of today's estimates. Please try again tomorrow.",
+    client_budget_exceeded: "You've used all of today's estimates. Please try again tomorrow.",
+    invalid_output: "The analysis didn't come back in a form we could use. Please try again.",
+    provider_timeout: 'The analysis took too long. Please try again.',
+    provider_unavailable: 'The analysis service is busy right now. Please try again in a moment.',
+    provider_not_configured: "Estimates aren't available right now. Please try again later.",
+    upload_failed: "Your photo couldn't be uploaded. Please try again.",
+    not_ready: 'The service is starting up. Please try again in a moment.',
+    internal_error: 'Something went wrong on our side. Please try again.',
+    network_error: "We couldn't reach the server. Please check your connection and try again.",
+  },
+};
+
+const RETRY: Record<ErrorCode, RetryPolicy> = {
+  invalid_request: 'never',
+  unauthenticated: 'never',
+  forbidden: 'never',
+  not_found: 'never',
+  not_job_owner: 'never',
+  image_too_large: 'never',
+  not_food: 'never',
+  content_rejected: 'never',
+  no_nutrition_data: 'never',
+  rate_limited: 'later',
+  daily_budget_exceeded: 'later',
+  client_request_quota_exceeded: 'later',
+  client_budget_exceeded: 'later',
+  invalid_output: 'now',
+  provider_timeout: 'now',
+  provider_unavailable: 'now',
+  provider_not_configured: 'later',
+  upload_failed: 'now',
+  not_ready: 'now',
+  internal_error: 'now',
+  network_error: 'now',
+};
+
+// Failures a slow or dropped connection can cause
+const CONNECTION_CODES: ErrorCode[] = ['network_error', 'provider_timeout', 'upload_failed'];
+
+// The first of the browser's languages we have copy in
+function preferredLocale(): Locale {
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const language of languages) {
+    const locale = LOCALES.find(candidate => language.toLowerCase().split('-')[0] === candidate);
+    if (locale) {
+      return locale;
+    }
+  }
+  return LOCALES[0];
+}
+
+/**
+ * What to tell the user about a failed request and whether to offer a
+ * retry, decided by its error code rather than the server's message
+ * @param error The error an API call threw
+ * @param locale Language of the message; the browser's when not given
+ */
+export function describeError(error: unknown, locale: Locale = preferredLocale()): ErrorDescription {
+  const code: ErrorCode = error instanceof ApiError ? error.code : 'internal_error';
+  return {
+    code,
+    message: MESSAGES[locale][code],
+    retry: RETRY[code],
+    checkConnection: CONNECTION_CODES.includes(code),
+    ...(error instanceof ApiError && error.requestId ? { requestId: error.requestId } : {}),
+  };
+}
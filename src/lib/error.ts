@@ -1,12 +1,47 @@
+import { AuthCode, ErrorCode, QuotaCode, RateLimitCode } from './types';
+
+/**
+ * The code an error with this status has when nothing more specific is
+ * known, e.g. for a response from a proxy rather than from our routes
+ * @param statusCode HTTP status
+ */
+export function codeForStatus(statusCode: number): ErrorCode {
+  switch (statusCode) {
+    case 400:
+      return 'invalid_request';
+    case 401:
+      return 'unauthenticated';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 408:
+    case 504:
+      return 'provider_timeout';
+    case 413:
+      return 'image_too_large';
+    case 429:
+      return 'rate_limited';
+    case 502:
+    case 503:
+      return 'provider_unavailable';
+    default:
+      return 'internal_error';
+  }
+}
+
 /**
- * Custom API error with status code
+ * Custom API error with status code and error code
  */
 export class ApiError extends Error {
   statusCode: number;
+  code: ErrorCode;
+  requestId?: string; // Set on the client from the error response, for reporting a problem
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, code: ErrorCode = codeForStatus(statusCode)) {
     super(message);
     this.statusCode = statusCode;
+    this.code = code;
     this.name = 'ApiError';
   }
 }
@@ -45,4 +80,123 @@ export async function handleApiError<T>(
       error: formatErrorMessage(error)
     };
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Model output that could not be turned into a valid estimation
+ */
+export class InvalidModelOutputError extends ApiError {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message, 502, 'invalid_output');
+    this.issues = issues;
+    this.name = 'InvalidModelOutputError';
+  }
+}
+
+/**
+ * Model output that is not parseable JSON
+ */
+export class MalformedOutputError extends InvalidModelOutputError {
+  constructor(message: string, issues: string[]) {
+    super(message, issues);
+    this.name = 'MalformedOutputError';
+  }
+}
+
+/**
+ * Model output whose shape or values don't match the estimation schema
+ */
+export class SchemaValidationError extends InvalidModelOutputError {
+  constructor(message: string, issues: string[]) {
+    super(message, issues);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Model output whose item calories don't add up to the meal total
+ */
+export class TotalMismatchError extends InvalidModelOutputError {
+  itemsTotal: number;
+  reportedTotal: number;
+
+  constructor(itemsTotal: number, reportedTotal: number) {
+    super(
+      'Food item calories do not add up to the meal total',
+      [`foodItems add up to ${itemsTotal} calories but calories is ${reportedTotal}`]
+    );
+    this.itemsTotal = itemsTotal;
+    this.reportedTotal = reportedTotal;
+    this.name = 'TotalMismatchError';
+  }
+}
+
+/**
+ * Model answer saying the image shows no food or drink. Asking again
+ * wouldn't change that, so it is not retried.
+ */
+export class NotFoodError extends ApiError {
+  constructor() {
+    super("This photo doesn't seem to show any food or drink", 422, 'not_food');
+    this.name = 'NotFoodError';
+  }
+}
+
+/**
+ * Request refused because it has no valid credentials (401) or they lack
+ * the scope the route needs (403)
+ */
+export class AuthError extends ApiError {
+  declare code: AuthCode;
+
+  constructor(message: string, code: AuthCode) {
+    super(message, code === 'forbidden' ? 403 : 401, code);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Request turned away because the client is over its rate limit
+ */
+export class RateLimitedError extends ApiError {
+  declare code: RateLimitCode;
+  retryAfterSeconds: number; // Until the client's bucket holds a token again
+
+  constructor(retryAfterSeconds: number) {
+    super(`Too many requests. Please wait ${retryAfterSeconds} seconds and try again.`, 429, 'rate_limited');
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.name = 'RateLimitedError';
+  }
+}
+
+/**
+ * Request turned away because a daily spend cap or client quota is used up
+ */
+export class QuotaExceededError extends ApiError {
+  declare code: QuotaCode;
+  retryAfterSeconds: number; // Until the caps reset at midnight UTC
+
+  constructor(message: string, code: QuotaCode, retryAfterSeconds: number) {
+    super(message, 429, code);
+    this.retryAfterSeconds = retryAfterSeconds;
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Turn an estimation failure into the message, code and status a route
+ * would answer with, for responses that report errors inside a 2xx body
+ * @param error The error thrown by the estimator
+ * @returns Error message, error code and HTTP status code
+ */
+export function describeEstimationError(error: unknown): { error: string; code: ErrorCode; statusCode: number } {
+  if (error instanceof InvalidModelOutputError) {
+    return { error: `AI analysis returned an invalid result: ${error.message}`, code: error.code, statusCode: error.statusCode };
+  }
+  if (error instanceof ApiError) {
+    return { error: error.message, code: error.code, statusCode: error.statusCode };
+  }
+  return { error: error instanceof Error ? error.message : 'Unknown error occurred', code: 'internal_error', statusCode: 500 };
+}
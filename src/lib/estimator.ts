@@ -0,0 +1,390 @@
+import { deriveDietTags, tagAllergens } from './allergens';
+import { withEstimationCache } from './cache/estimation';
+import { config } from './config';
+import { ApiError, InvalidModelOutputError } from './error';
+import { createLogger } from './logger';
+import { EstimationInput, EstimationProvider, getEstimationProvider } from './providers';
+import { scaleMacros, sumCalories, sumMacros } from './macros';
+import { reconcileItems } from './nutrition-db';
+import { annotatePortion } from './portion';
+import { aggregateSamples, combineRanges } from './sampling';
+import { validateEstimation } from './schemas';
+import { CalorieEstimation, CalorieEstimationResult, ClarifyingAnswer, EstimationEvent, FoodItem, ScaleReference } from './types';
+
+const log = createLogger('estimator');
+
+/**
+ * Make sure a base64 image carries a data URI prefix
+ * @param base64Image Base64 encoded image data, with or without prefix
+ * @returns Data URI for the image
+ */
+export function toImageDataUri(base64Image: string): string {
+  return base64Image.startsWith('data:image/')
+    ? base64Image
+    : `data:image/jpeg;base64,${base64Image}`;
+}
+
+/**
+ * Parse portions, ground items in the nutrition database when enabled and
+ * flag allergens
+ * @param items Validated food items
+ * @returns Items with weights, parsed portions, nutrition sources and allergens
+ */
+function groundItems(items: FoodItem[]): FoodItem[] {
+  const withPortions = items.map(annotatePortion);
+  const grounded = config.nutrition.enabled
+    ? reconcileItems(withPortions)
+    : withPortions.map(item => ({ ...item, nutritionSource: 'model' as const }));
+  return grounded.map(tagAllergens);
+}
+
+type SourceFields = Pick<CalorieEstimationResult, 'source' | 'description' | 'servings'>;
+
+/**
+ * Source fields for the result. A refinement keeps those of the estimation it revises.
+ */
+function describeSource(input: EstimationInput): SourceFields {
+  switch (input.kind) {
+    case 'image':
+      return { source: 'image' };
+    case 'text':
+      return { source: 'text', description: input.description };
+    case 'recipe':
+      return { source: 'recipe', description: input.ingredients, servings: input.servings };
+    case 'refine': {
+      const { source, description, servings } = input.previous;
+      const fields: SourceFields = { source };
+      if (description !== undefined) {
+        fields.description = description;
+      }
+      if (servings !== undefined) {
+        fields.servings = servings;
+      }
+      return fields;
+    }
+  }
+}
+
+/**
+ * Calibration fields for the result. Image estimations always report whether
+ * a scale reference was used; a reference the model couldn't find doesn't count.
+ */
+function describeCalibration(input: EstimationInput, referenceFound?: boolean): Pick<CalorieEstimationResult, 'calibration'> {
+  switch (input.kind) {
+    case 'image':
+      return {
+        calibration: input.reference
+          ? { used: referenceFound !== false, reference: input.reference }
+          : { used: false },
+      };
+    case 'refine':
+      return input.previous.calibration ? { calibration: input.previous.calibration } : {};
+    default:
+      return {};
+  }
+}
+
+/**
+ * Totals for an estimation. Recipe items cover the whole batch, so their
+ * totals are split into servings.
+ * @param items Food items or ingredients
+ * @param servings Number of servings the items make
+ * @returns Calories and macros per serving
+ */
+function totalsFor(items: FoodItem[], servings = 1): Pick<CalorieEstimation, 'calories' | 'macros'> {
+  return {
+    calories: Math.round(sumCalories(items) / servings),
+    macros: scaleMacros(sumMacros(items), 1 / servings),
+  };
+}
+
+/**
+ * Decide which clarifying questions reach the user. They are only worth the
+ * extra step when the model is unsure, and a refinement never asks again.
+ */
+function askClarifyingQuestions(input: EstimationInput, confidence: number, questions: string[] = []): string[] {
+  if (input.kind === 'refine' || confidence >= config.estimation.clarifyBelowConfidence) {
+    return [];
+  }
+  return questions;
+}
+
+/**
+ * Run an estimation through a provider, ground the items in the nutrition
+ * database and derive the meal totals. Invalid output is re-asked with the
+ * validation problems attached, up to the configured number of attempts.
+ * @param input The estimation input
+ * @param provider Provider to use, defaults to the configured provider
+ * @param onProgress Called as model calls start and items arrive
+ * @returns Estimated calories, macros and food items
+ */
+export async function runEstimation(
+  input: EstimationInput,
+  provider: EstimationProvider = getEstimationProvider(),
+  onProgress?: (event: EstimationProgress) => void
+): Promise<CalorieEstimationResult> {
+  log.debug('Starting analysis', { kind: input.kind, provider: provider.name });
+
+  const maxAttempts = Math.max(1, config.estimation.maxAttempts);
+  let attemptInput = input;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      onProgress?.({ stage: 'model_started', provider: provider.name, attempt });
+      const output = await provider.estimate(
+        attemptInput,
+        onProgress && (items => onProgress({ stage: 'partial_items', items }))
+      );
+      const { clarifyingQuestions, dietTags, referenceFound, ...result } = validateEstimation(output);
+      const foodItems = groundItems(result.foodItems);
+      const questions = askClarifyingQuestions(input, result.confidence, clarifyingQuestions);
+      const source = describeSource(input);
+      const totals = totalsFor(foodItems, source.servings);
+      return {
+        ...result,
+        ...totals,
+        foodItems,
+        dietTags: deriveDietTags({ foodItems, ...totals }, dietTags),
+        ...source,
+        ...describeCalibration(input, referenceFound),
+        ...(questions.length ? { clarifyingQuestions: questions } : {}),
+      };
+    } catch (error) {
+      if (!(error instanceof InvalidModelOutputError) || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      log.warn('Attempt rejected, re-asking provider', { attempt, reason: error.name, issues: error.issues });
+      attemptInput = { ...input, feedback: error.issues };
+    }
+  }
+}
+
+/**
+ * Progress reported by the estimator while it works; the route adds the
+ * received, result and error stages around it
+ */
+export type EstimationProgress = Extract<EstimationEvent, { stage: 'normalized' | 'model_started' | 'partial_items' }>;
+
+export interface EstimationOptions {
+  /** Independent estimates to aggregate into a range; 1 makes a single call */
+  samples?: number;
+  /** Object of known size in the photo */
+  reference?: ScaleReference;
+  /** Called as the estimation progresses */
+  onProgress?: (event: EstimationProgress) => void;
+  /** Provider to use, defaults to the configured provider */
+  provider?: EstimationProvider;
+}
+
+/**
+ * Run several independent estimations of the same input and aggregate them
+ * into median values with calorie ranges. Failed samples are dropped as long
+ * as at least one succeeds.
+ * @param input The estimation input
+ * @param samples Number of estimations to run
+ * @param provider Provider to use, defaults to the configured provider
+ * @param onProgress Called as model calls start and items arrive
+ * @returns Aggregated estimation, or a plain one when `samples` is 1
+ */
+export async function runSampledEstimation(
+  input: EstimationInput,
+  samples: number,
+  provider: EstimationProvider = getEstimationProvider(),
+  onProgress?: (event: EstimationProgress) => void
+): Promise<CalorieEstimationResult> {
+  if (samples <= 1) {
+    return runEstimation(input, provider, onProgress);
+  }
+
+  // Partial items from parallel samples would interleave, so only the
+  // model calls are reported
+  const reportStart = (sample: number) => onProgress && ((event: EstimationProgress) => {
+    if (event.stage === 'model_started') {
+      onProgress({ ...event, sample });
+    }
+  });
+
+  log.debug('Running independent samples', { samples });
+  const settled = await Promise.allSettled(
+    Array.from({ length: samples }, (_, index) => runEstimation(input, provider, reportStart(index + 1)))
+  );
+
+  const results: CalorieEstimationResult[] = [];
+  const failures: unknown[] = [];
+  for (const outcome of settled) {
+    if (outcome.status === 'fulfilled') {
+      results.push(outcome.value);
+    } else {
+      failures.push(outcome.reason);
+    }
+  }
+
+  if (!results.length) {
+    throw failures[0];
+  }
+  if (failures.length) {
+    log.warn('Some samples failed, aggregating the rest', { failed: failures.length, samples, error: failures[0] });
+  }
+  return aggregateSamples(results);
+}
+
+// Image estimations go through the result cache, keyed on what the image looks like
+function runImageEstimation(
+  input: Extract<EstimationInput, { kind: 'image' }>,
+  options: EstimationOptions
+): Promise<CalorieEstimationResult> {
+  const provider = options.provider ?? getEstimationProvider();
+  const samples = options.samples ?? 1;
+  return withEstimationCache(input, samples, provider, () =>
+    runSampledEstimation(input, samples, provider, options.onProgress)
+  );
+}
+
+/**
+ * Estimate calories directly from base64 image without using Cloudinary
+ * @param base64Image Base64 encoded image data
+ * @param options Estimation options such as the number of samples
+ * @returns Estimated calories and food items
+ */
+export async function estimateCaloriesFromBase64(
+  base64Image: string,
+  options: EstimationOptions = {}
+): Promise<CalorieEstimationResult> {
+  const image = toImageDataUri(base64Image);
+  options.onProgress?.({ stage: 'normalized', sizeKb: Math.round(image.length * 0.75 / 1024) });
+  return runImageEstimation({ kind: 'image', image, reference: options.reference }, options);
+}
+
+/**
+ * Estimate calories in a food image hosted at a URL
+ * @param imageUrl URL of the food image
+ * @param options Estimation options such as the number of samples
+ * @returns Estimated calories and food items
+ */
+export async function estimateCaloriesFromImage(
+  imageUrl: string,
+  options: EstimationOptions = {}
+): Promise<CalorieEstimationResult> {
+  return runImageEstimation({ kind: 'image', image: imageUrl, reference: options.reference }, options);
+}
+
+/**
+ * Estimate calories from a free-text meal description
+ * @param description Description of the meal
+ * @param options Estimation options such as the number of samples
+ * @returns Estimated calories and food items
+ */
+export async function estimateCaloriesFromText(
+  description: string,
+  options: EstimationOptions = {}
+): Promise<CalorieEstimationResult> {
+  return runSampledEstimation({ kind: 'text', description }, options.samples ?? 1, options.provider, options.onProgress);
+}
+
+/**
+ * Estimate a batch recipe from its ingredient list
+ * @param ingredients Ingredients with quantities, one per line
+ * @param servings Number of servings the recipe makes
+ * @param provider Provider to use, defaults to the configured provider
+ * @returns Whole-batch ingredients with calories and macros per serving
+ */
+export async function estimateRecipe(
+  ingredients: string,
+  servings: number,
+  provider?: EstimationProvider
+): Promise<CalorieEstimationResult> {
+  return runEstimation({ kind: 'recipe', ingredients, servings }, provider);
+}
+
+/**
+ * Refine an estimation with the user's answers to its clarifying questions
+ * @param previous Preliminary estimation the questions came with
+ * @param answers The user's answers
+ * @param provider Provider to use, defaults to the configured provider
+ * @returns Revised estimation, keeping the image URL of the original
+ */
+export async function refineEstimation(
+  previous: CalorieEstimation,
+  answers: ClarifyingAnswer[],
+  provider?: EstimationProvider
+): Promise<CalorieEstimation> {
+  const refined = await runEstimation({ kind: 'refine', previous, answers }, provider);
+  return previous.imageUrl ? { ...refined, imageUrl: previous.imageUrl } : refined;
+}
+
+/**
+ * Re-derive one edited item from its name and portion. The nutrition
+ * database is tried first; without a confident match the provider is
+ * asked to estimate the item from text, so no image is needed.
+ * @param item Item as edited by the user
+ * @param provider Provider to use when the database has no match
+ * @returns Item with fresh calories, macros and weight
+ */
+async function recalculateItem(item: FoodItem, provider: EstimationProvider): Promise<FoodItem> {
+  // Anything derived from the previous name or portion is stale
+  const edited: FoodItem = {
+    name: item.name.trim(),
+    portion: item.portion.trim(),
+    calories: item.calories,
+    macros: item.macros,
+  };
+
+  const [grounded] = groundItems([edited]);
+  if (grounded.nutritionSource === 'database') {
+    return grounded;
+  }
+
+  if (!provider.isConfigured()) {
+    throw new ApiError(`No nutrition data found for "${edited.name}" and no estimation provider is configured`, 422, 'no_nutrition_data');
+  }
+
+  const estimate = await runEstimation(
+    { kind: 'text', description: `${edited.portion} ${edited.name}` },
+    provider
+  );
+  const [single] = estimate.foodItems;
+  const isSingleItem = estimate.foodItems.length === 1;
+  const grams = estimate.foodItems.every(part => part.grams !== undefined)
+    ? estimate.foodItems.reduce((sum, part) => sum + (part.grams ?? 0), 0)
+    : grounded.grams;
+
+  return {
+    ...tagAllergens({
+      ...grounded,
+      allergens: estimate.foodItems.flatMap(part => part.allergens ?? []),
+    }),
+    calories: estimate.calories,
+    macros: estimate.macros,
+    grams,
+    nutritionSource: isSingleItem ? single.nutritionSource : 'model',
+    ...(isSingleItem && single.databaseMatch ? { databaseMatch: single.databaseMatch } : {}),
+  };
+}
+
+/**
+ * Recalculate an edited estimation without re-sending the photo
+ * @param estimation Estimation with the user's edits applied
+ * @param itemIndex Index of the edited or added item; omit to only refresh totals after a removal
+ * @param provider Provider to use when the database has no match, defaults to the configured provider
+ * @returns Estimation with the item re-derived and meal totals updated
+ */
+export async function recalculateEstimation(
+  estimation: CalorieEstimation,
+  itemIndex?: number,
+  provider: EstimationProvider = getEstimationProvider()
+): Promise<CalorieEstimation> {
+  const foodItems = [...estimation.foodItems];
+  if (itemIndex !== undefined) {
+    foodItems[itemIndex] = await recalculateItem(foodItems[itemIndex], provider);
+  }
+
+  const totals = totalsFor(foodItems, estimation.servings);
+  return {
+    ...estimation,
+    foodItems,
+    ...totals,
+    dietTags: deriveDietTags({ foodItems, ...totals }, estimation.dietTags),
+    ...(estimation.calorieRange ? { calorieRange: combineRanges(foodItems) } : {}),
+  };
+}
@@ -0,0 +1,132 @@
+import { config } from './config';
+
+// Names every request to the API, in logs, responses and error bodies
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Request IDs callers may choose themselves, so their own logs line up with ours
+const REQUEST_ID_PATTERN = /^[\w.-]{8,128}$/;
+
+// Request headers cross-origin callers may send
+const ALLOWED_HEADERS = ['Authorization', 'Content-Type', 'Accept', 'X-Requested-With', 'X-iOS-Client', REQUEST_ID_HEADER];
+
+// Response headers cross-origin callers may read, beyond the CORS-safelisted ones
+const EXPOSED_HEADERS = [
+  'RateLimit-Limit',
+  'RateLimit-Remaining',
+  'RateLimit-Reset',
+  'RateLimit-Policy',
+  'Retry-After',
+  'Location',
+  'Deprecation',
+  'Link',
+  'Sunset',
+  REQUEST_ID_HEADER,
+];
+
+// Where result images may come from: uploads, and the placeholders for images that weren't uploaded
+const IMAGE_SOURCES = ['https://res.cloudinary.com', 'https://placehold.co'];
+
+/**
+ * The ID to handle a request under
+ * @param requested The request's X-Request-Id header
+ * @returns The requested ID when it is well formed, otherwise a new one
+ */
+export function requestIdFrom(requested: string | null): string {
+  return requested && REQUEST_ID_PATTERN.test(requested) ? requested : crypto.randomUUID();
+}
+
+/**
+ * The origin to allow a request from, as it should appear in
+ * Access-Control-Allow-Origin
+ * @param origin The request's Origin header
+ * @returns The origin itself when it is on the allowlist, "*" when any
+ * origin is allowed, or null when it isn't allowed
+ */
+export function allowedOrigin(origin: string | null): string | null {
+  if (!origin) {
+    return null;
+  }
+  const { allowedOrigins } = config.cors;
+  if (allowedOrigins.includes(origin)) {
+    return origin;
+  }
+  return allowedOrigins.includes('*') ? '*' : null;
+}
+
+/**
+ * CORS headers for an API request from another origin. Credentials are
+ * only allowed for origins named on the allowlist, since browsers refuse
+ * them alongside a wildcard anyway.
+ * @param origin The request's Origin header
+ * @param preflight Whether this answers an OPTIONS preflight
+ * @returns Headers to set, empty when the origin isn't allowed
+ */
+export function corsHeadersFor(origin: string | null, preflight: boolean): Record<string, string> {
+  const allowed = allowedOrigin(origin);
+  if (!allowed) {
+    return {};
+  }
+
+  const headers: Record<string, string> = {
+    'Access-Control-Allow-Origin': allowed,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS.join(', '),
+    // Answers differ by origin, so caches must keep them apart
+    'Vary': 'Origin',
+  };
+  if (allowed !== '*') {
+    headers['Access-Control-Allow-Credentials'] = 'true';
+  }
+  if (preflight) {
+    headers['Access-Control-Allow-Methods'] = 'GET, POST, OPTIONS';
+    headers['Access-Control-Allow-Headers'] = ALLOWED_HEADERS.join(', ');
+    headers['Access-Control-Max-Age'] = String(config.cors.maxAgeSeconds);
+  }
+  return headers;
+}
+
+function contentSecurityPolicy(api: boolean): string {
+  // API responses are data, never documents, so they may load nothing at all
+  if (api) {
+    return "default-src 'none'; frame-ancestors 'none'";
+  }
+
+  const connectSources = ["'self'"];
+  if (config.api.baseUrl.startsWith('http')) {
+    connectSources.push(new URL(config.api.baseUrl).origin);
+  }
+  const development = process.env.NODE_ENV !== 'production';
+  return [
+    "default-src 'self'",
+    // Next.js inlines its bootstrap scripts, and fast refresh needs eval in development
+    `script-src 'self' 'unsafe-inline'${development ? " 'unsafe-eval'" : ''}`,
+    "style-src 'self' 'unsafe-inline'",
+    // Previews of picked photos are data URLs
+    `img-src 'self' data: blob: ${IMAGE_SOURCES.join(' ')}`,
+    "font-src 'self' data:",
+    `connect-src ${connectSources.join(' ')}${development ? ' ws:' : ''}`,
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'self'",
+    "frame-ancestors 'none'",
+  ].join('; ');
+}
+
+/**
+ * Security headers for every response
+ * @param api Whether the response comes from an API route rather than a page
+ */
+export function securityHeaders(api: boolean): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Security-Policy': contentSecurityPolicy(api),
+    // For browsers that predate frame-ancestors
+    'X-Frame-Options': 'DENY',
+    'X-Content-Type-Options': 'nosniff',
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    // The camera is opened through a file input, which needs no permission
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=()',
+  };
+  if (process.env.NODE_ENV === 'production') {
+    headers['Strict-Transport-Security'] = 'max-age=31536000; includeSubDomains';
+  }
+  return headers;
+}
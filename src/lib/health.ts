@@ -0,0 +1,194 @@
+import packageJson from '../../package.json';
+import { apiKeysConfigProblem } from './auth/keys';
+import { getCacheStore } from './cache';
+import { config } from './config';
+import { getJobStore } from './jobs';
+import { getEstimationProvider } from './providers';
+import { getRateLimitStore } from './ratelimit';
+import { getUsageStore } from './usage';
+import { HealthReport, ReadinessCheck, ReadinessReport } from './types';
+
+const BUDGET_ACTIONS = ['reject', 'cheaper-model', 'mock'];
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+// A store check that takes longer than this fails, so a hung disk can't hang the probe
+const STORE_CHECK_TIMEOUT_MS = 2000;
+
+// What a storage adapter offers the readiness check
+interface CheckableStore {
+  name: string;
+  check?(): Promise<void>;
+}
+
+/**
+ * Settings that would make the server misbehave. Unset numbers fall back to
+ * their defaults, so only values that were set wrongly show up here.
+ */
+function configProblems(): string[] {
+  const problems: string[] = [];
+
+  const positive: [string, number][] = [
+    ['LOCAL_PROVIDER_TIMEOUT_MS', config.estimation.localTimeout],
+    ['ESTIMATION_MAX_ATTEMPTS', config.estimation.maxAttempts],
+    ['ESTIMATION_MAX_SAMPLES', config.estimation.maxSamples],
+    ['BATCH_MAX_IMAGES', config.batch.maxImages],
+    ['BATCH_CONCURRENCY', config.batch.concurrency],
+    ['ESTIMATION_CACHE_TTL_MS', config.cache.ttlMs],
+    ['ESTIMATION_CACHE_MAX_ENTRIES', config.cache.maxEntries],
+    ['USAGE_RETENTION_DAYS', config.usage.retentionDays],
+    ['RATE_LIMIT_BURST', config.rateLimit.burst],
+    ['RATE_LIMIT_PER_MINUTE', config.rateLimit.perMinute],
+    ['SESSION_TTL_MS', config.auth.sessionTtlMs],
+    ['JOB_TTL_MS', config.jobs.ttlMs],
+    ['CORS_MAX_AGE', config.cors.maxAgeSeconds],
+  ];
+  for (const [name, value] of positive) {
+    if (!Number.isFinite(value) || value <= 0) {
+      problems.push(`${name} must be a positive number`);
+    }
+  }
+
+  const notNegative: [string, number][] = [
+    ['ESTIMATION_CACHE_MAX_DISTANCE', config.cache.maxDistance],
+    ['DAILY_BUDGET_USD', config.budget.dailyUsd],
+    ['CLIENT_DAILY_REQUESTS', config.budget.clientDailyRequests],
+    ['CLIENT_DAILY_BUDGET_USD', config.budget.clientDailyUsd],
+  ];
+  for (const [name, value] of notNegative) {
+    if (!Number.isFinite(value) || value < 0) {
+      problems.push(`${name} must be zero or more`);
+    }
+  }
+
+  const fractions: [string, number][] = [
+    ['CLARIFY_BELOW_CONFIDENCE', config.estimation.clarifyBelowConfidence],
+    ['NUTRITION_MATCH_THRESHOLD', config.nutrition.matchThreshold],
+  ];
+  for (const [name, value] of fractions) {
+    if (!(value >= 0 && value <= 1)) {
+      problems.push(`${name} must be between 0 and 1`);
+    }
+  }
+
+  if (!BUDGET_ACTIONS.includes(config.budget.onExceeded)) {
+    problems.push(`BUDGET_EXCEEDED_ACTION must be one of ${BUDGET_ACTIONS.join(', ')}`);
+  }
+  if (!LOG_LEVELS.includes(config.logging.level)) {
+    problems.push(`LOG_LEVEL must be one of ${LOG_LEVELS.join(', ')}`);
+  }
+  if (config.api.legacySunset && Number.isNaN(Date.parse(config.api.legacySunset))) {
+    problems.push('LEGACY_API_SUNSET must be an HTTP date');
+  }
+  const apiKeysProblem = apiKeysConfigProblem();
+  if (apiKeysProblem) {
+    problems.push(apiKeysProblem);
+  }
+  return problems;
+}
+
+// Settings the server runs without, but not as well
+function configWarnings(): string[] {
+  const warnings: string[] = [];
+  if (process.env.NODE_ENV === 'production' && !config.auth.sessionSecret) {
+    warnings.push('SESSION_SECRET is not set, so browser sessions end on restart');
+  }
+  // On Vercel each request may land on another instance, so polls can't find a job kept locally
+  if (process.env.VERCEL && ['memory', 'file'].includes(config.jobs.store)) {
+    warnings.push(`JOB_STORE is ${config.jobs.store}, which instances don't share, so background jobs can't be collected reliably`);
+  }
+  const { url, cloudName, apiKey, apiSecret } = config.cloudinary;
+  if (!url && !(cloudName && apiKey && apiSecret)) {
+    warnings.push('Cloudinary is not configured, so requests that upload their image will fail');
+  }
+  return warnings;
+}
+
+function checkConfig(): ReadinessCheck {
+  const problems = configProblems();
+  if (problems.length) {
+    return { status: 'fail', detail: problems.join('; ') };
+  }
+  const warnings = configWarnings();
+  return warnings.length ? { status: 'warn', detail: warnings.join('; ') } : { status: 'pass' };
+}
+
+function checkProvider(): ReadinessCheck {
+  try {
+    const provider = getEstimationProvider();
+    return provider.isConfigured()
+      ? { status: 'pass', detail: provider.name }
+      : { status: 'fail', detail: `The ${provider.name} provider is missing its configuration` };
+  } catch (error) {
+    return { status: 'fail', detail: (error as Error).message };
+  }
+}
+
+/**
+ * Check a storage adapter: that the configured one exists, and that it
+ * passes its own local check, if it has one
+ * @param resolve Looks up the configured adapter; null when it is turned off
+ */
+async function checkStore(resolve: () => CheckableStore | null): Promise<ReadinessCheck> {
+  let store: CheckableStore | null;
+  try {
+    store = resolve();
+  } catch (error) {
+    return { status: 'fail', detail: (error as Error).message };
+  }
+  if (!store) {
+    return { status: 'pass', detail: 'off' };
+  }
+  if (!store.check) {
+    return { status: 'pass', detail: store.name };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(Object.assign(new Error('Timed out'), { code: 'ETIMEDOUT' })), STORE_CHECK_TIMEOUT_MS);
+  });
+  try {
+    await Promise.race([store.check(), timeout]);
+  } catch (error) {
+    // Only the error code: file system messages carry paths we don't need to publish
+    const code = (error as NodeJS.ErrnoException).code || 'an error';
+    return { status: 'fail', detail: `The ${store.name} store can't be used (${code})` };
+  } finally {
+    clearTimeout(timer);
+  }
+  return { status: 'pass', detail: store.name };
+}
+
+/**
+ * Whether the server can take traffic. Every check is local and cheap: no
+ * provider is called and nothing is written besides creating missing data
+ * directories. Details name what is wrong, never a secret.
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const [jobs, usage, cache, rateLimit] = await Promise.all([
+    checkStore(getJobStore),
+    checkStore(getUsageStore),
+    checkStore(getCacheStore),
+    checkStore(getRateLimitStore),
+  ]);
+  const checks = { config: checkConfig(), provider: checkProvider(), jobs, usage, cache, rateLimit };
+
+  return {
+    status: Object.values(checks).some(check => check.status === 'fail') ? 'not_ready' : 'ready',
+    version: packageJson.version,
+    build: config.build.version || null,
+    checks,
+    time: new Date().toISOString(),
+  };
+}
+
+/**
+ * That the process is up and answering. Checks nothing else, so a
+ * dependency being down never gets the server restarted.
+ */
+export function checkHealth(): HealthReport {
+  return {
+    status: 'ok',
+    uptimeSeconds: Math.floor(process.uptime()),
+    time: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,67 @@
+import sharp from 'sharp';
+
+// The hash compares each pixel with its right neighbour on a 9×8 thumbnail, giving 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Remote images are only fetched for hashing, so don't wait long for them
+const FETCH_TIMEOUT = 10000;
+
+async function loadImage(image: string): Promise<Buffer> {
+  if (/^data:[^;,]+;base64,/.test(image)) {
+    return Buffer.from(image.slice(image.indexOf(',') + 1), 'base64');
+  }
+
+  const response = await fetch(image, { signal: AbortSignal.timeout(FETCH_TIMEOUT) });
+  if (!response.ok) {
+    throw new Error(`Could not fetch image for hashing (${response.status})`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Perceptual difference hash of an image. Re-encoded, resized or slightly
+ * brightened copies of the same photo get the same or a very close hash.
+ * @param image Data URI or URL of the image
+ * @returns 16 hex characters
+ */
+export async function perceptualHash(image: string): Promise<string> {
+  const pixels = await sharp(await loadImage(image))
+    .rotate() // Apply EXIF orientation so a rotated copy hashes the same
+    .greyscale()
+    .resize(HASH_WIDTH, HASH_HEIGHT, { fit: 'fill' })
+    .raw()
+    .toBuffer();
+
+  let hash = '';
+  for (let row = 0; row < HASH_HEIGHT; row++) {
+    let nibble = 0;
+    for (let column = 0; column < HASH_WIDTH - 1; column++) {
+      const offset = row * HASH_WIDTH + column;
+      nibble = (nibble << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+      if (column % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+/**
+ * Number of bits in which two perceptual hashes differ
+ * @param a First hash
+ * @param b Second hash of the same length
+ * @returns Distance from 0 (same) to 64
+ */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
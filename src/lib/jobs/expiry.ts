@@ -0,0 +1,12 @@
+import { config } from '../config';
+import { EstimationJob } from '../types';
+
+/**
+ * Whether a job is past its time to live, counted from its last update
+ * @param job The job
+ * @param now Current time in milliseconds
+ * @returns True when the job should be discarded
+ */
+export function isExpired(job: EstimationJob, now = Date.now()): boolean {
+  return now - Date.parse(job.updatedAt) > config.jobs.ttlMs;
+}
@@ -0,0 +1,72 @@
+import { constants, promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { isExpired } from './expiry';
+import { JobStore, StoredJob } from './types';
+
+// Ids are generated UUIDs; anything else must not reach the file system
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+function jobPath(id: string): string {
+  return path.join(path.resolve(config.jobs.dir), `${id}.json`);
+}
+
+// Write to a temporary file first so a reader never sees half a job
+async function writeJob(job: StoredJob): Promise<void> {
+  const target = jobPath(job.id);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, JSON.stringify(job));
+  await fs.rename(temporary, target);
+}
+
+async function readJob(id: string): Promise<StoredJob | null> {
+  if (!JOB_ID_PATTERN.test(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(jobPath(id), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Jobs kept as JSON files in `JOB_STORE_DIR`, so they survive restarts.
+ * Expired files are removed when they are next read.
+ */
+export const fileJobStore: JobStore = {
+  name: 'file',
+
+  async create(job) {
+    await writeJob(job);
+  },
+
+  async get(id) {
+    const job = await readJob(id);
+    if (job && isExpired(job)) {
+      await fs.rm(jobPath(id), { force: true });
+      return null;
+    }
+    return job;
+  },
+
+  async update(id, changes) {
+    const job = await readJob(id);
+    if (!job) {
+      return null;
+    }
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    await writeJob(updated);
+    return updated;
+  },
+
+  async check() {
+    const dir = path.resolve(config.jobs.dir);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.access(dir, constants.W_OK);
+  },
+};
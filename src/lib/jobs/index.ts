@@ -0,0 +1,24 @@
+import { config } from '../config';
+import { JobStore } from './types';
+import { memoryJobStore } from './memory';
+import { fileJobStore } from './file';
+
+export type { JobStore, StoredJob } from './types';
+
+const stores: Record<string, JobStore> = {
+  [memoryJobStore.name]: memoryJobStore,
+  [fileJobStore.name]: fileJobStore,
+};
+
+/**
+ * Get a job store by name
+ * @param name Store name, defaults to the configured store
+ * @returns The matching store
+ */
+export function getJobStore(name: string = config.jobs.store): JobStore {
+  const store = stores[name];
+  if (!store) {
+    throw new Error(`Unknown job store "${name}". Available stores: ${Object.keys(stores).join(', ')}`);
+  }
+  return store;
+}
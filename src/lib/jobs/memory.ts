@@ -0,0 +1,48 @@
+import { isExpired } from './expiry';
+import { JobStore, StoredJob } from './types';
+
+// Kept on globalThis so every route bundle, and dev-mode reloads, share one map
+const globalJobs = globalThis as typeof globalThis & { __estimationJobs?: Map<string, StoredJob> };
+const jobs = globalJobs.__estimationJobs ?? (globalJobs.__estimationJobs = new Map());
+
+// Drop expired jobs so the map doesn't grow without bound
+function sweep() {
+  const now = Date.now();
+  jobs.forEach((job, id) => {
+    if (isExpired(job, now)) {
+      jobs.delete(id);
+    }
+  });
+}
+
+/**
+ * Jobs held in process memory. Lost on restart and not shared between
+ * server instances.
+ */
+export const memoryJobStore: JobStore = {
+  name: 'memory',
+
+  async create(job) {
+    sweep();
+    jobs.set(job.id, job);
+  },
+
+  async get(id) {
+    const job = jobs.get(id);
+    if (!job || isExpired(job)) {
+      jobs.delete(id);
+      return null;
+    }
+    return job;
+  },
+
+  async update(id, changes) {
+    const job = jobs.get(id);
+    if (!job) {
+      return null;
+    }
+    const updated = { ...job, ...changes, updatedAt: new Date().toISOString() };
+    jobs.set(id, updated);
+    return updated;
+  },
+};
@@ -0,0 +1,69 @@
+import { randomUUID } from 'crypto';
+import { after } from 'next/server';
+import { describeEstimationError } from '../error';
+import { createLogger } from '../logger';
+import { trackUsage } from '../usage/tracking';
+import { CalorieEstimation, EstimationJob, Principal } from '../types';
+import { getJobStore } from './index';
+import { JobStore, StoredJob } from './types';
+
+const log = createLogger('jobs');
+
+/**
+ * Who a job belongs to: the API key, or the browser session, that started
+ * it. Only they may read it.
+ * @param principal Who made the request
+ */
+export function jobOwner(principal: Principal): string {
+  return `${principal.kind}:${principal.id}`;
+}
+
+/**
+ * A stored job as it is sent to its owner, without the owner
+ * @param stored The job as stored
+ */
+export function toPublicJob(stored: StoredJob): EstimationJob {
+  const { owner, ...job } = stored;
+  return job;
+}
+
+/**
+ * Create a job and start the estimation in the background. The job is
+ * returned while still pending; its outcome is written to the store. The
+ * estimation runs after the response is sent, kept alive until it is done.
+ * @param run The estimation to perform
+ * @param client Client key the job's usage counts against
+ * @param owner Who may read the job, see jobOwner
+ * @param store Store to keep the job in, defaults to the configured store
+ * @returns The new job
+ */
+export async function startEstimationJob(
+  run: () => Promise<CalorieEstimation>,
+  client: string,
+  owner: string,
+  store: JobStore = getJobStore()
+): Promise<EstimationJob> {
+  const now = new Date().toISOString();
+  const job: StoredJob = { id: randomUUID(), status: 'pending', createdAt: now, updatedAt: now, owner };
+  await store.create(job);
+
+  log.info('Created job', { jobId: job.id, store: store.name });
+  after(runJob(job.id, run, client, store));
+  return toPublicJob(job);
+}
+
+async function runJob(id: string, run: () => Promise<CalorieEstimation>, client: string, store: JobStore) {
+  try {
+    await store.update(id, { status: 'running' });
+    const { result, usage } = await trackUsage('jobs', client, run);
+    await store.update(id, { status: 'succeeded', result, usage });
+    log.info('Job succeeded', { jobId: id });
+  } catch (error) {
+    log.error('Job failed', { jobId: id, error });
+    try {
+      await store.update(id, { status: 'failed', ...describeEstimationError(error) });
+    } catch (storeError) {
+      log.error('Could not record failure of job', { jobId: id, error: storeError });
+    }
+  }
+}
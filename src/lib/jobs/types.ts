@@ -0,0 +1,20 @@
+import { EstimationJob } from '../types';
+
+// A job as stored: the job plus who started it, which is never sent back
+export interface StoredJob extends EstimationJob {
+  owner: string; // See jobOwner
+}
+
+/**
+ * Storage for estimation jobs. Implementations only persist; the runner
+ * decides the status transitions.
+ */
+export interface JobStore {
+  name: string;
+  create(job: StoredJob): Promise<void>;
+  /** Returns null when the job doesn't exist or has expired */
+  get(id: string): Promise<StoredJob | null>;
+  update(id: string, changes: Partial<Omit<StoredJob, 'id' | 'createdAt' | 'owner'>>): Promise<StoredJob | null>;
+  /** Cheap local check that the store can be used, for readiness; throws when it can't */
+  check?(): Promise<void>;
+}
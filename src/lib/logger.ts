@@ -0,0 +1,174 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from './config';
+import { requestIdFrom, REQUEST_ID_HEADER } from './headers';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// What every line logged while handling a request is tagged with
+interface RequestContext {
+  requestId: string;
+  route: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+// Strings of base64 longer than this are payloads such as images, not something to read in a log
+const MAX_INLINE_BASE64 = 200;
+const BASE64 = /^[A-Za-z0-9+/=\r\n]+$/;
+const DATA_URL = /^data:[\w/+.-]+;base64,/;
+
+// Values are nested no deeper than this, which also stops at cycles
+const MAX_DEPTH = 6;
+
+function minimumLevel(): number {
+  return LEVELS[config.logging.level as LogLevel] ?? LEVELS.info;
+}
+
+// Header and field names that hold credentials, compared without case, dashes or underscores
+function isSecretKey(key: string): boolean {
+  const name = key.toLowerCase().replace(/[-_]/g, '');
+  return name === 'authorization' || name === 'cookie' || name === 'setcookie' ||
+    /(apikeys?|secret|password|token)$/.test(name);
+}
+
+function redactString(value: string): string {
+  if (DATA_URL.test(value)) {
+    return `[image: ${value.length} chars]`;
+  }
+  if (value.length > MAX_INLINE_BASE64 && BASE64.test(value)) {
+    return `[base64: ${value.length} chars]`;
+  }
+  return value;
+}
+
+function serializeError(error: Error, depth: number): LogFields {
+  const serialized: LogFields = { name: error.name, message: redactString(error.message) };
+  // Subclasses carry the status, code or model output issues that explain them
+  for (const [key, value] of Object.entries(error)) {
+    serialized[key] = redact(key, value, depth + 1);
+  }
+  serialized.stack = error.stack;
+  return serialized;
+}
+
+/**
+ * A value as it may be logged: credentials replaced, image and other
+ * base64 payloads summarised by their length, errors made serializable
+ * @param key Name the value is logged under
+ * @param value The value
+ * @param depth How deeply it is nested
+ */
+function redact(key: string, value: unknown, depth = 0): unknown {
+  if (isSecretKey(key) && value !== undefined && value !== null && value !== '') {
+    return '[redacted]';
+  }
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[nested]';
+  }
+  if (value instanceof Error) {
+    return serializeError(value, depth);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value instanceof Headers) {
+    const headers: LogFields = {};
+    value.forEach((headerValue, name) => {
+      headers[name] = redact(name, headerValue, depth + 1);
+    });
+    return headers;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(key, item, depth + 1));
+  }
+  const redacted: LogFields = {};
+  for (const [name, field] of Object.entries(value)) {
+    redacted[name] = redact(name, field, depth + 1);
+  }
+  return redacted;
+}
+
+function write(level: LogLevel, scope: string, message: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < minimumLevel()) {
+    return;
+  }
+  const context = requestContext.getStore();
+  const line: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    scope,
+    ...(context ? { requestId: context.requestId, route: context.route } : {}),
+    msg: message,
+  };
+  // Fields can add to a line but not change what it says about itself
+  for (const [key, value] of Object.entries(redact('', fields) as LogFields)) {
+    if (!(key in line)) {
+      line[key] = value;
+    }
+  }
+  // Warnings and errors go to stderr, so they can be told apart without parsing
+  if (LEVELS[level] >= LEVELS.warn) {
+    console.error(JSON.stringify(line));
+  } else {
+    console.log(JSON.stringify(line));
+  }
+}
+
+/**
+ * A logger that writes one JSON object per line. Lines below LOG_LEVEL are
+ * dropped; those written while handling a request carry its ID and route.
+ * Fields are redacted before they are written, so request headers and
+ * bodies can be logged as they are.
+ * @param scope Part of the server the lines come from, e.g. "jobs"
+ */
+export function createLogger(scope: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', scope, message, fields),
+    info: (message, fields) => write('info', scope, message, fields),
+    warn: (message, fields) => write('warn', scope, message, fields),
+    error: (message, fields) => write('error', scope, message, fields),
+  };
+}
+
+/**
+ * The request ID to handle a request under: the one the middleware
+ * assigned, or a new one when the request didn't pass through it
+ * @param request The incoming request
+ */
+export function requestIdFor(request: Request): string {
+  return requestIdFrom(request.headers.get(REQUEST_ID_HEADER));
+}
+
+/**
+ * Run a request's handler so that everything logged while it runs, work it
+ * starts in the background included, is tagged with the request
+ * @param context The request's ID and the route handling it
+ * @param fn The handler
+ */
+export function withRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * The ID of the request being handled, if any
+ */
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
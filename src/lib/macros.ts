@@ -0,0 +1,81 @@
+import { CalorieRange, FoodItem, Macronutrients } from './types';
+
+export const MACRO_LABELS: Record<keyof Macronutrients, string> = {
+  protein: 'Protein',
+  carbohydrates: 'Carbs',
+  fat: 'Fat',
+  fiber: 'Fiber',
+};
+
+/**
+ * Create an empty macronutrient record
+ */
+export function emptyMacros(): Macronutrients {
+  return { protein: 0, carbohydrates: 0, fat: 0, fiber: 0 };
+}
+
+/**
+ * Add up the macronutrients of a list of food items
+ * @param items Food items to total
+ * @returns Meal macronutrient totals, rounded to 0.1 g
+ */
+export function sumMacros(items: Pick<FoodItem, 'macros'>[]): Macronutrients {
+  const total = emptyMacros();
+  for (const item of items) {
+    total.protein += item.macros.protein;
+    total.carbohydrates += item.macros.carbohydrates;
+    total.fat += item.macros.fat;
+    total.fiber += item.macros.fiber;
+  }
+  return {
+    protein: roundGrams(total.protein),
+    carbohydrates: roundGrams(total.carbohydrates),
+    fat: roundGrams(total.fat),
+    fiber: roundGrams(total.fiber),
+  };
+}
+
+/**
+ * Multiply every macronutrient by a factor, e.g. to split a batch into servings
+ * @returns Scaled amounts, rounded to 0.1 g
+ */
+export function scaleMacros(macros: Macronutrients, factor: number): Macronutrients {
+  return {
+    protein: roundGrams(macros.protein * factor),
+    carbohydrates: roundGrams(macros.carbohydrates * factor),
+    fat: roundGrams(macros.fat * factor),
+    fiber: roundGrams(macros.fiber * factor),
+  };
+}
+
+/**
+ * Add up the calories of a list of food items
+ */
+export function sumCalories(items: Pick<FoodItem, 'calories'>[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.calories, 0));
+}
+
+/**
+ * Round a gram value to one decimal place
+ */
+export function roundGrams(grams: number): number {
+  return Math.round(grams * 10) / 10;
+}
+
+/**
+ * Format a gram value for display
+ * @param grams Amount in grams
+ * @returns Display string such as "12g" or "0.5g"
+ */
+export function formatGrams(grams: number): string {
+  return `${grams >= 10 ? Math.round(grams) : roundGrams(grams)}g`;
+}
+
+/**
+ * Format a calorie range for display
+ * @param range Low and high calorie values
+ * @returns Display string such as "540–610" or "540" when both ends agree
+ */
+export function formatCalorieRange({ low, high }: CalorieRange): string {
+  return low === high ? `${low}` : `${low}–${high}`;
+}
@@ -0,0 +1,114 @@
+import { Macronutrients } from './types';
+
+/**
+ * A food composition entry. Values are per 100 g of the food as eaten.
+ */
+export interface FoodReference {
+  name: string;
+  aliases: string[];
+  per100g: Macronutrients & { calories: number };
+  gramsPerMl?: number; // Density, for cup and spoon portions
+  unitWeights?: Record<string, number>; // Grams per piece, slice, medium, ...
+}
+
+// [calories, protein, carbohydrates, fat, fiber] per 100 g
+type Per100g = [number, number, number, number, number];
+
+type PortionData = Pick<FoodReference, 'gramsPerMl' | 'unitWeights'>;
+
+function food(name: string, aliases: string[], values: Per100g, portions: PortionData = {}): FoodReference {
+  const [calories, protein, carbohydrates, fat, fiber] = values;
+  return { name, aliases, per100g: { calories, protein, carbohydrates, fat, fiber }, ...portions };
+}
+
+/**
+ * Bundled reference values for common foods, based on USDA FoodData Central
+ * averages for the cooked or ready-to-eat form.
+ */
+export const FOOD_REFERENCES: FoodReference[] = [
+  // Meat, fish and eggs
+  food('Chicken breast, cooked', ['chicken breast', 'grilled chicken', 'roast chicken', 'chicken'], [165, 31, 0, 3.6, 0], { gramsPerMl: 0.58, unitWeights: { piece: 172, breast: 172 } }),
+  food('Chicken thigh, cooked', ['chicken thigh', 'chicken leg'], [209, 26, 0, 10.9, 0], { unitWeights: { piece: 116, thigh: 116 } }),
+  food('Ground beef, cooked', ['ground beef', 'minced beef', 'beef mince', 'hamburger patty'], [254, 26, 0, 17, 0], { gramsPerMl: 0.6, unitWeights: { patty: 113 } }),
+  food('Beef steak, cooked', ['steak', 'beef steak', 'sirloin', 'ribeye'], [271, 25, 0, 19, 0], { unitWeights: { piece: 220, steak: 220 } }),
+  food('Pork chop, cooked', ['pork chop', 'pork loin', 'pork'], [231, 26, 0, 14, 0], { unitWeights: { piece: 150, chop: 150 } }),
+  food('Bacon, cooked', ['bacon', 'bacon strips'], [541, 37, 1.4, 42, 0], { unitWeights: { piece: 8, strip: 8, slice: 8 } }),
+  food('Salmon, cooked', ['salmon', 'grilled salmon', 'salmon fillet'], [206, 22, 0, 12, 0], { unitWeights: { piece: 150, fillet: 150 } }),
+  food('Tuna, canned in water', ['tuna', 'canned tuna'], [116, 26, 0, 0.8, 0], { gramsPerMl: 0.6, unitWeights: { can: 142 } }),
+  food('Shrimp, cooked', ['shrimp', 'prawns'], [99, 24, 0.2, 0.3, 0], { unitWeights: { piece: 6 } }),
+  food('Egg, boiled', ['egg', 'eggs', 'boiled egg', 'hard boiled egg'], [155, 13, 1.1, 11, 0], { unitWeights: { piece: 50, small: 38, medium: 44, large: 50 } }),
+  food('Egg, scrambled', ['scrambled eggs', 'scrambled egg'], [149, 10, 1.6, 11, 0], { gramsPerMl: 0.92, unitWeights: { piece: 61 } }),
+  food('Egg, fried', ['fried egg', 'fried eggs'], [196, 14, 0.8, 15, 0], { unitWeights: { piece: 46 } }),
+  food('Tofu, firm', ['tofu'], [144, 17, 2.8, 8.7, 2.3], { gramsPerMl: 1.05, unitWeights: { block: 400 } }),
+
+  // Grains, breads and starches
+  food('White rice, cooked', ['white rice', 'steamed rice', 'rice'], [130, 2.7, 28, 0.3, 0.4], { gramsPerMl: 0.79 }),
+  food('Brown rice, cooked', ['brown rice'], [123, 2.7, 26, 1, 1.6], { gramsPerMl: 0.81 }),
+  food('Pasta, cooked', ['pasta', 'spaghetti', 'spaghetti pasta', 'penne', 'macaroni', 'noodles'], [158, 5.8, 31, 0.9, 1.8], { gramsPerMl: 0.58 }),
+  food('Quinoa, cooked', ['quinoa'], [120, 4.4, 21, 1.9, 2.8], { gramsPerMl: 0.77 }),
+  food('Oatmeal, cooked', ['oatmeal', 'porridge', 'oats'], [71, 2.5, 12, 1.5, 1.7], { gramsPerMl: 0.98 }),
+  food('Granola', ['granola', 'muesli'], [471, 10, 64, 20, 5.3], { gramsPerMl: 0.5 }),
+  food('White bread', ['white bread', 'bread', 'toast', 'sandwich bread'], [265, 9, 49, 3.2, 2.7], { unitWeights: { piece: 28, slice: 28 } }),
+  food('Whole wheat bread', ['whole wheat bread', 'wholemeal bread', 'whole grain toast'], [247, 13, 41, 3.4, 7], { unitWeights: { piece: 32, slice: 32 } }),
+  food('Flour tortilla', ['tortilla', 'flour tortilla', 'wrap'], [312, 8.3, 52, 8, 3.5], { unitWeights: { piece: 45 } }),
+  food('Pancakes', ['pancake', 'pancakes'], [227, 6.4, 28, 10, 0.9], { unitWeights: { piece: 60 } }),
+  food('Potato, baked', ['baked potato', 'potato', 'potatoes', 'boiled potatoes'], [93, 2.5, 21, 0.1, 2.2], { gramsPerMl: 0.65, unitWeights: { piece: 173, small: 138, medium: 173, large: 299 } }),
+  food('Mashed potatoes', ['mashed potatoes', 'mash'], [113, 2, 17, 4.2, 1.5], { gramsPerMl: 0.88 }),
+  food('French fries', ['french fries', 'fries', 'chips'], [312, 3.4, 41, 15, 3.8], { unitWeights: { small: 71, medium: 117, large: 154 } }),
+  food('Hash browns', ['hash browns', 'hash brown'], [265, 3, 35, 13, 3.2], { gramsPerMl: 0.65, unitWeights: { piece: 55, patty: 55 } }),
+  food('Sweet potato, baked', ['sweet potato', 'sweet potatoes', 'yam'], [90, 2, 21, 0.2, 3.3], { gramsPerMl: 0.83, unitWeights: { piece: 114, small: 60, medium: 114, large: 180 } }),
+
+  // Legumes and nuts
+  food('Black beans, cooked', ['black beans', 'beans'], [132, 8.9, 24, 0.5, 8.7], { gramsPerMl: 0.72 }),
+  food('Chickpeas, cooked', ['chickpeas', 'garbanzo beans'], [164, 8.9, 27, 2.6, 7.6], { gramsPerMl: 0.68 }),
+  food('Hummus', ['hummus'], [166, 7.9, 14, 9.6, 6], { gramsPerMl: 1.0 }),
+  food('Peanut butter', ['peanut butter'], [588, 25, 20, 50, 6], { gramsPerMl: 1.08 }),
+  food('Almonds', ['almonds', 'almond'], [579, 21, 22, 50, 12.5], { gramsPerMl: 0.6, unitWeights: { piece: 1.2 } }),
+
+  // Vegetables
+  food('Broccoli, steamed', ['broccoli', 'steamed broccoli'], [35, 2.4, 7.2, 0.4, 3.3], { gramsPerMl: 0.65, unitWeights: { piece: 11, floret: 11 } }),
+  food('Mixed salad greens', ['mixed greens', 'salad greens', 'lettuce', 'salad', 'spring mix'], [17, 1.5, 3, 0.2, 2], { gramsPerMl: 0.125 }),
+  food('Spinach', ['spinach'], [23, 2.9, 3.6, 0.4, 2.2], { gramsPerMl: 0.125 }),
+  food('Cherry tomatoes', ['cherry tomatoes', 'cherry tomato', 'grape tomatoes'], [18, 0.9, 3.9, 0.2, 1.2], { gramsPerMl: 0.62, unitWeights: { piece: 17 } }),
+  food('Tomato', ['tomato', 'tomatoes'], [18, 0.9, 3.9, 0.2, 1.2], { gramsPerMl: 0.75, unitWeights: { piece: 123, small: 91, medium: 123, large: 182, slice: 20 } }),
+  food('Carrot', ['carrot', 'carrots'], [41, 0.9, 10, 0.2, 2.8], { gramsPerMl: 0.53, unitWeights: { piece: 61, medium: 61 } }),
+  food('Cucumber', ['cucumber'], [15, 0.7, 3.6, 0.1, 0.5], { gramsPerMl: 0.5, unitWeights: { piece: 300, slice: 7 } }),
+  food('Sweet corn', ['corn', 'sweet corn'], [96, 3.4, 21, 1.5, 2.4], { gramsPerMl: 0.6, unitWeights: { ear: 90, cob: 90 } }),
+  food('Green beans', ['green beans', 'string beans'], [35, 1.9, 7.9, 0.3, 3.2], { gramsPerMl: 0.52 }),
+  food('Onion', ['onion', 'onions'], [40, 1.1, 9.3, 0.1, 1.7], { gramsPerMl: 0.67, unitWeights: { piece: 110, medium: 110 } }),
+  food('Avocado', ['avocado', 'guacamole'], [160, 2, 8.5, 15, 6.7], { gramsPerMl: 0.96, unitWeights: { piece: 136, medium: 136, half: 68 } }),
+
+  // Fruit
+  food('Banana', ['banana', 'bananas'], [89, 1.1, 23, 0.3, 2.6], { unitWeights: { piece: 118, small: 101, medium: 118, large: 136 } }),
+  food('Apple', ['apple', 'apples'], [52, 0.3, 14, 0.2, 2.4], { gramsPerMl: 0.46, unitWeights: { piece: 182, small: 149, medium: 182, large: 223 } }),
+  food('Orange', ['orange', 'oranges'], [47, 0.9, 12, 0.1, 2.4], { unitWeights: { piece: 131, medium: 131 } }),
+  food('Strawberries', ['strawberries', 'strawberry'], [32, 0.7, 7.7, 0.3, 2], { gramsPerMl: 0.63, unitWeights: { piece: 12 } }),
+  food('Blueberries', ['blueberries', 'blueberry'], [57, 0.7, 14, 0.3, 2.4], { gramsPerMl: 0.62 }),
+
+  // Dairy
+  food('Cheddar cheese', ['cheddar', 'cheddar cheese', 'cheese'], [403, 25, 1.3, 33, 0], { gramsPerMl: 0.47, unitWeights: { piece: 28, slice: 21 } }),
+  food('Parmesan cheese', ['parmesan', 'parmesan cheese', 'parmigiano'], [431, 38, 4.1, 29, 0], { gramsPerMl: 0.4 }),
+  food('Mozzarella cheese', ['mozzarella', 'mozzarella cheese'], [280, 28, 3.1, 17, 0], { gramsPerMl: 0.47, unitWeights: { slice: 28, ball: 125 } }),
+  food('Greek yogurt, plain', ['greek yogurt', 'yogurt', 'yoghurt'], [73, 10, 3.9, 1.9, 0], { gramsPerMl: 1.03, unitWeights: { container: 170 } }),
+  food('Milk, 2%', ['milk'], [50, 3.3, 4.8, 2, 0], { gramsPerMl: 1.03 }),
+  food('Butter', ['butter'], [717, 0.9, 0.1, 81, 0], { gramsPerMl: 0.96, unitWeights: { pat: 5 } }),
+  food('Vanilla ice cream', ['ice cream', 'vanilla ice cream'], [207, 3.5, 24, 11, 0.7], { gramsPerMl: 0.55, unitWeights: { scoop: 66 } }),
+
+  // Sauces, fats and sweeteners
+  food('Olive oil', ['olive oil', 'oil', 'cooking oil'], [884, 0, 0, 100, 0], { gramsPerMl: 0.92 }),
+  food('Mayonnaise', ['mayonnaise', 'mayo'], [680, 1, 0.6, 75, 0], { gramsPerMl: 0.93 }),
+  food('Ketchup', ['ketchup'], [101, 1, 27, 0.1, 0.3], { gramsPerMl: 1.15, unitWeights: { packet: 9 } }),
+  food('Marinara sauce', ['tomato sauce', 'marinara', 'pasta sauce'], [50, 1.5, 8, 1.5, 1.8], { gramsPerMl: 1.04 }),
+  food('Balsamic vinaigrette', ['balsamic vinaigrette', 'vinaigrette', 'salad dressing'], [280, 0.3, 16, 24, 0], { gramsPerMl: 1.07 }),
+  food('Honey', ['honey'], [304, 0.3, 82, 0, 0.2], { gramsPerMl: 1.42 }),
+  food('Sugar', ['sugar'], [387, 0, 100, 0, 0], { gramsPerMl: 0.85, unitWeights: { packet: 4, cube: 4 } }),
+
+  // Prepared foods and drinks
+  food('Cheese pizza', ['pizza', 'cheese pizza', 'margherita pizza'], [266, 11, 33, 10, 2.3], { unitWeights: { piece: 107, slice: 107 } }),
+  food('Hamburger', ['hamburger', 'burger', 'cheeseburger'], [250, 12, 27, 10, 1.5], { unitWeights: { piece: 150 } }),
+  food('Chocolate chip cookie', ['cookie', 'cookies', 'chocolate chip cookie'], [488, 5, 64, 24, 2.4], { unitWeights: { piece: 16, large: 40 } }),
+  food('Orange juice', ['orange juice', 'juice'], [45, 0.7, 10, 0.2, 0.2], { gramsPerMl: 1.04 }),
+  food('Cola', ['cola', 'soda', 'coke'], [42, 0, 10.6, 0, 0], { gramsPerMl: 1.04, unitWeights: { can: 368 } }),
+  food('Beer', ['beer', 'lager'], [43, 0.5, 3.6, 0, 0], { gramsPerMl: 1.01, unitWeights: { can: 356, bottle: 356 } }),
+  food('Red wine', ['red wine', 'wine'], [85, 0.1, 2.6, 0, 0], { gramsPerMl: 0.99, unitWeights: { glass: 147 } }),
+];
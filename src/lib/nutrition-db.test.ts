@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findFood } from './nutrition-db';
+
+// Name as the model reports it, and the food it should match (null for none).
+// A dish that only shares words with an ingredient must not match it, or the
+// ingredient's values would replace the model's for the whole dish.
+const CASES: [string, string | null][] = [
+  ['Grilled chicken breast', 'Chicken breast, cooked'],
+  ['Chiken breast', 'Chicken breast, cooked'],
+  ['Steamed white rice', 'White rice, cooked'],
+  ['Fried eggs', 'Egg, fried'],
+  ['Peanut butter', 'Peanut butter'],
+  ['French fries', 'French fries'],
+  ['Baked potato', 'Potato, baked'],
+  ['Grilled chicken salad', null],
+  ['Egg fried rice', null],
+  ['Beef stew', null],
+  ['Peanut butter cookie', null],
+  ['Chicken noodle soup', null],
+  ['Sweet potato fries', null],
+];
+
+describe('findFood', () => {
+  for (const [name, expected] of CASES) {
+    it(`matches "${name}" to ${expected ?? 'nothing'}`, () => {
+      assert.equal(findFood(name)?.food.name ?? null, expected);
+    });
+  }
+});
@@ -0,0 +1,168 @@
+import { config } from './config';
+import { roundGrams } from './macros';
+import { FOOD_REFERENCES, FoodReference } from './nutrition-data';
+import { FoodItem } from './types';
+
+export interface FoodMatch {
+  food: FoodReference;
+  score: number; // 0-1 similarity
+}
+
+// Words that say how a food was prepared or served without changing what it is
+const MINOR_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'with', 'and', 'in', 'on',
+  'cooked', 'grilled', 'roasted', 'baked', 'steamed', 'plain', 'fresh',
+  'sliced', 'chopped', 'diced', 'homemade', 'small', 'medium', 'large',
+]);
+
+// Two words whose bigrams are this similar count as the same word misspelled
+const WORD_MATCH_THRESHOLD = 0.7;
+
+/**
+ * Lowercase, strip punctuation and naive plurals so names compare cleanly
+ */
+function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+    .join(' ');
+}
+
+// Sørensen–Dice coefficient over a pair of sets
+function dice<T>(a: T[], b: T[]): number {
+  if (a.length === 0 && b.length === 0) {
+    return 1;
+  }
+  const remaining = [...b];
+  let shared = 0;
+  for (const value of a) {
+    const index = remaining.indexOf(value);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (a.length + b.length);
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    result.push(text.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Similarity between two food names. Whole-word overlap handles reordered
+ * names, character bigrams handle misspellings.
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  return Math.max(
+    dice(a.split(' '), b.split(' ')),
+    dice(bigrams(a), bigrams(b))
+  );
+}
+
+// Whether every significant word of one name appears in the other, allowing for misspellings
+function coversWords(name: string, other: string): boolean {
+  const otherWords = other.split(' ');
+  return name.split(' ')
+    .filter(word => !MINOR_WORDS.has(word))
+    .every(word => otherWords.some(candidate =>
+      candidate === word || dice(bigrams(candidate), bigrams(word)) >= WORD_MATCH_THRESHOLD
+    ));
+}
+
+/**
+ * Whether two names are the same food: their significant words match both
+ * ways. "Egg fried rice" is not "Egg, fried", however similar they read.
+ */
+function sameWords(a: string, b: string): boolean {
+  return coversWords(a, b) && coversWords(b, a);
+}
+
+/**
+ * Similarity between two food names as written, e.g. by different model answers
+ * @returns Score from 0 (unrelated) to 1 (same name)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return similarity(normalizeName(a), normalizeName(b));
+}
+
+/**
+ * Find the closest food in the reference dataset
+ * @param name Food name as reported by the model
+ * @returns Best match at or above the configured threshold whose words are
+ * the same as the name's, or null. A dish is never matched to one of its
+ * ingredients, so its values aren't replaced with the ingredient's.
+ */
+export function findFood(name: string): FoodMatch | null {
+  const query = normalizeName(name);
+  let best: FoodMatch | null = null;
+
+  for (const food of FOOD_REFERENCES) {
+    for (const candidate of [food.name, ...food.aliases]) {
+      const normalized = normalizeName(candidate);
+      if (!sameWords(query, normalized)) {
+        continue;
+      }
+      const score = similarity(query, normalized);
+      if (!best || score > best.score) {
+        best = { food, score };
+      }
+    }
+  }
+
+  return best && best.score >= config.nutrition.matchThreshold ? best : null;
+}
+
+/**
+ * Replace an item's calories and macros with reference values when the
+ * item has a confident database match and a known weight. Otherwise the
+ * model's numbers are kept and flagged as such.
+ * @param item Food item from the provider
+ * @returns Item annotated with where its values came from
+ */
+export function reconcileItem(item: FoodItem): FoodItem {
+  const { grams } = item;
+  const match = findFood(item.name);
+
+  if (!match || !grams) {
+    return { ...item, nutritionSource: 'model' };
+  }
+
+  const factor = grams / 100;
+  const { per100g } = match.food;
+  return {
+    ...item,
+    grams,
+    calories: Math.round(per100g.calories * factor),
+    macros: {
+      protein: roundGrams(per100g.protein * factor),
+      carbohydrates: roundGrams(per100g.carbohydrates * factor),
+      fat: roundGrams(per100g.fat * factor),
+      fiber: roundGrams(per100g.fiber * factor),
+    },
+    nutritionSource: 'database',
+    databaseMatch: {
+      name: match.food.name,
+      score: Math.round(match.score * 100) / 100,
+    },
+  };
+}
+
+/**
+ * Reconcile every item of an estimation against the reference dataset
+ * @param items Food items from the provider
+ * @returns Reconciled items
+ */
+export function reconcileItems(items: FoodItem[]): FoodItem[] {
+  return items.map(reconcileItem);
+}
@@ -0,0 +1,75 @@
+import { PartialFoodItem } from './types';
+
+/**
+ * Pick the food items that are already complete out of a model answer that
+ * is still being written, e.g. `{"calories": 650, "foodItems": [{...}, {"na`.
+ * Only items whose closing brace has arrived are returned.
+ * @param text JSON text received so far
+ * @returns Complete items in order, with whatever display fields they have
+ */
+export function extractCompleteItems(text: string): PartialFoodItem[] {
+  const key = text.indexOf('"foodItems"');
+  const start = key < 0 ? -1 : text.indexOf('[', key);
+  if (start < 0) {
+    return [];
+  }
+
+  const items: PartialFoodItem[] = [];
+  let depth = 0;
+  let itemStart = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth === 0) {
+        itemStart = i;
+      }
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        const item = toPartialItem(text.slice(itemStart, i + 1));
+        if (item) {
+          items.push(item);
+        }
+      }
+    } else if (char === ']' && depth === 0) {
+      break;
+    }
+  }
+
+  return items;
+}
+
+function toPartialItem(json: string): PartialFoodItem | null {
+  try {
+    const raw = JSON.parse(json);
+    if (typeof raw?.name !== 'string') {
+      return null;
+    }
+    return {
+      name: raw.name,
+      ...(typeof raw.calories === 'number' ? { calories: raw.calories } : {}),
+      ...(typeof raw.portion === 'string' ? { portion: raw.portion } : {}),
+    };
+  } catch (error) {
+    // Commas and braces inside the item's own values can fool the scan
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+const STORAGE_KEY = 'pendingEstimationJob';
+
+/**
+ * Read the id of an estimation job that hadn't finished when the page was left
+ * @returns Job id, or null when there is none or storage is unavailable
+ */
+export function loadPendingJob(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    // Private browsing on iOS can throw on storage access
+    console.warn('Unable to read pending job:', error);
+    return null;
+  }
+}
+
+/**
+ * Remember a running estimation job so it can be collected after a reload
+ * @param id Job id
+ */
+export function savePendingJob(id: string): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.warn('Unable to save pending job:', error);
+  }
+}
+
+/**
+ * Forget the pending estimation job once it has an outcome
+ */
+export function clearPendingJob(): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.warn('Unable to clear pending job:', error);
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { annotatePortion, parsePortion } from './portion';
+import { FoodItem } from './types';
+
+describe('parsePortion', () => {
+  // Portion as written, food name, and the parse expected
+  const parsed: [string, string | undefined, { quantity: number; unit: string; grams: number | null }][] = [
+    ['4 oz', undefined, { quantity: 4, unit: 'oz', grams: 113 }],
+    ['1 1/2 cups', 'White rice, cooked', { quantity: 1.5, unit: 'cup', grams: 284 }],
+    ['½ cup', undefined, { quantity: 0.5, unit: 'cup', grams: 120 }],
+    ['2-3 slices', 'Bread', { quantity: 2.5, unit: 'slice', grams: 70 }],
+    ['half a cup', undefined, { quantity: 0.5, unit: 'cup', grams: 120 }],
+    ['a handful', undefined, { quantity: 1, unit: 'handful', grams: 30 }],
+    ['2 large eggs', 'Egg', { quantity: 2, unit: 'egg', grams: 100 }],
+    ['2 strips', 'Bacon', { quantity: 2, unit: 'strip', grams: 16 }],
+    ['3/4 cup (180g)', undefined, { quantity: 0.75, unit: 'cup', grams: 180 }],
+    ['2 x 100g', undefined, { quantity: 200, unit: 'g', grams: 200 }],
+    ['2×100g', undefined, { quantity: 200, unit: 'g', grams: 200 }],
+    ['3 x 1/2 cup', undefined, { quantity: 1.5, unit: 'cup', grams: 360 }],
+    ['1 burger (2 x 75g)', undefined, { quantity: 1, unit: 'burger', grams: 150 }],
+  ];
+  for (const [portion, food, expected] of parsed) {
+    it(`parses "${portion}"`, () => {
+      assert.deepEqual(parsePortion(portion, food), expected);
+    });
+  }
+
+  // Quantities that are written but unusable, and text with no amount
+  const rejected = ['1/0 cup', '1 1/0 cup', '0 cups', '0-2 cups', '0.5.5 cup', '2 x 0g', '1e3 g', '1.5e2g', '2 100g', 'some'];
+  for (const portion of rejected) {
+    it(`rejects "${portion}"`, () => {
+      assert.equal(parsePortion(portion), null);
+    });
+  }
+});
+
+describe('annotatePortion', () => {
+  const item = (name: string, portion: string, grams: number): FoodItem => ({
+    name,
+    portion,
+    grams,
+    calories: 300,
+    macros: { protein: 10, carbohydrates: 10, fat: 10, fiber: 0 },
+  });
+
+  it("prefers a stated weight over the model's grams", () => {
+    assert.equal(annotatePortion(item('Steak', '8 oz', 300)).grams, 227);
+  });
+
+  it("keeps the model's grams for a household measure", () => {
+    assert.equal(annotatePortion(item('White rice, cooked', '1 cup', 150)).grams, 150);
+  });
+});
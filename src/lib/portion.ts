@@ -0,0 +1,286 @@
+import { findFood } from './nutrition-db';
+import { FoodReference } from './nutrition-data';
+import { FoodItem, ParsedPortion } from './types';
+
+type UnitKind = 'mass' | 'volume' | 'count';
+
+interface UnitDefinition {
+  unit: string;
+  kind: UnitKind;
+  size: number; // Grams for mass units, millilitres for volume units, default grams for counts
+}
+
+// [canonical unit, kind, size, spellings]
+const UNITS: [string, UnitKind, number, string[]][] = [
+  ['g', 'mass', 1, ['g', 'gr', 'gram', 'grams']],
+  ['kg', 'mass', 1000, ['kg', 'kilo', 'kilos', 'kilogram', 'kilograms']],
+  ['oz', 'mass', 28.35, ['oz', 'ounce', 'ounces']],
+  ['lb', 'mass', 453.6, ['lb', 'lbs', 'pound', 'pounds']],
+  ['ml', 'volume', 1, ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres']],
+  ['l', 'volume', 1000, ['l', 'liter', 'liters', 'litre', 'litres']],
+  ['fl oz', 'volume', 29.57, ['fl oz', 'floz', 'fluid ounce', 'fluid ounces']],
+  ['cup', 'volume', 240, ['cup', 'cups']],
+  ['tbsp', 'volume', 15, ['tbsp', 'tbsps', 'tbs', 'tablespoon', 'tablespoons']],
+  ['tsp', 'volume', 5, ['tsp', 'tsps', 'teaspoon', 'teaspoons']],
+  ['pint', 'volume', 473, ['pint', 'pints', 'pt']],
+  ['glass', 'volume', 240, ['glass', 'glasses']],
+  ['bowl', 'volume', 350, ['bowl', 'bowls']],
+  ['can', 'volume', 355, ['can', 'cans']],
+  ['handful', 'count', 30, ['handful', 'handfuls']],
+  ['piece', 'count', 0, ['piece', 'pieces', 'pc', 'pcs', 'whole', 'item', 'items']],
+  ['slice', 'count', 0, ['slice', 'slices']],
+  ['strip', 'count', 0, ['strip', 'strips', 'rasher', 'rashers']],
+  ['serving', 'count', 0, ['serving', 'servings', 'portion', 'portions']],
+];
+
+const UNIT_LOOKUP = new Map<string, UnitDefinition>();
+for (const [unit, kind, size, spellings] of UNITS) {
+  for (const spelling of spellings) {
+    UNIT_LOOKUP.set(spelling, { unit, kind, size });
+  }
+}
+
+// Size words scale the food's standard piece weight
+const SIZE_MULTIPLIERS = new Map<string, number>([
+  ['small', 0.75],
+  ['medium', 1],
+  ['large', 1.33],
+]);
+
+const WORD_NUMBERS = new Map<string, number>([
+  ['a', 1], ['an', 1], ['one', 1], ['two', 2], ['three', 3], ['four', 4], ['five', 5], ['six', 6],
+  ['seven', 7], ['eight', 8], ['nine', 9], ['ten', 10], ['eleven', 11], ['twelve', 12],
+  ['half', 0.5], ['quarter', 0.25], ['couple', 2], ['few', 3], ['dozen', 12],
+]);
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': ' 1/2', '⅓': ' 1/3', '⅔': ' 2/3', '¼': ' 1/4', '¾': ' 3/4', '⅛': ' 1/8',
+};
+
+// "1 1/2", "1/2", "1.5" or "2", not followed by more of a number, so "0.5.5" isn't one
+const NUMBER_PATTERN = '(?:\\d+\\s+\\d+/\\d+|\\d+/\\d+|\\d*\\.\\d+|\\d+)(?![\\d./])';
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER_PATTERN})(?:\\s*(?:-|to)\\s*(${NUMBER_PATTERN}))?\\s*`);
+
+// Words to skip between the quantity and the unit or food
+const FILLER_WORDS = new Set(['of', 'a', 'an', 'about', 'approx', 'approximately', 'around', 'roughly', 'x']);
+
+// The number's value, or null unless it is finite and positive ("1/0", "0")
+function parseNumber(text: string): number | null {
+  const mixed = text.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  const fraction = text.match(/^(\d+)\/(\d+)$/);
+  const value = mixed
+    ? Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3])
+    : fraction ? Number(fraction[1]) / Number(fraction[2]) : Number(text);
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function singular(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.endsWith('oes')) {
+    return word.slice(0, -2);
+  }
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+/**
+ * Read the leading quantity, handling ranges ("2-3" -> 2.5) and number words
+ * @returns Quantity and the rest of the text, a default quantity of 1, or
+ * null when the quantity is written but unusable
+ */
+function readQuantity(text: string): { quantity: number; rest: string; explicit: boolean } | null {
+  const match = text.match(QUANTITY_PATTERN);
+  if (match) {
+    const low = parseNumber(match[1]);
+    const high = match[2] ? parseNumber(match[2]) : low;
+    if (low === null || high === null) {
+      return null;
+    }
+    return { quantity: (low + high) / 2, rest: text.slice(match[0].length), explicit: true };
+  }
+
+  const [word, ...rest] = text.split(' ');
+  const wordNumber = WORD_NUMBERS.get(word);
+  if (wordNumber !== undefined) {
+    // "half a cup", "a dozen eggs"
+    let quantity = wordNumber;
+    let remaining = rest;
+    const next = WORD_NUMBERS.get(remaining[0]);
+    if (next !== undefined && !FILLER_WORDS.has(remaining[0])) {
+      quantity *= next;
+      remaining = remaining.slice(1);
+    }
+    return { quantity, rest: remaining.join(' '), explicit: true };
+  }
+
+  return { quantity: 1, rest: text, explicit: false };
+}
+
+/**
+ * Find the unit at the start of the text: a two-word unit ("fl oz"), a single
+ * unit word, or a size word optionally followed by a unit ("large slice")
+ */
+function readUnit(words: string[]): { definition: UnitDefinition | null; size: string | null; noun: string | null } {
+  const meaningful = words.filter(word => !FILLER_WORDS.has(word));
+  let size: string | null = null;
+
+  if (SIZE_MULTIPLIERS.has(meaningful[0])) {
+    size = meaningful.shift() as string;
+  }
+
+  const twoWords = meaningful.slice(0, 2).join(' ');
+  const definition = UNIT_LOOKUP.get(twoWords) ?? UNIT_LOOKUP.get(meaningful[0] ?? '') ?? null;
+  const noun = meaningful[0] ? singular(meaningful[0]) : null;
+  return { definition, size, noun };
+}
+
+// Grams per unit for a food, ignoring inherited object keys
+function unitWeight(food: FoodReference | null, unit: string): number | undefined {
+  const weights = food?.unitWeights;
+  return weights && Object.prototype.hasOwnProperty.call(weights, unit) ? weights[unit] : undefined;
+}
+
+/**
+ * Weight of one counted unit of a food, or null when unknown
+ */
+function countWeight(unit: string, size: string | null, food: FoodReference | null, fallback: number): number | null {
+  // Nouns such as "egg" or "banana" count as pieces of the food
+  const isPiece = unit === 'piece' || unit === size || !UNIT_LOOKUP.has(unit);
+
+  // "1 medium", "1 large egg"
+  const sizedWeight = size ? unitWeight(food, size) : undefined;
+  if (sizedWeight && isPiece) {
+    return sizedWeight;
+  }
+
+  const multiplier = size ? SIZE_MULTIPLIERS.get(size) ?? 1 : 1;
+  const weight = unitWeight(food, unit) ?? (isPiece ? unitWeight(food, 'piece') : undefined);
+  if (weight) {
+    return weight * multiplier;
+  }
+  return fallback ? fallback * multiplier : null;
+}
+
+/**
+ * Parse a portion and report whether its weight was stated outright
+ */
+function parse(portion: string, foodName?: string): { parsed: ParsedPortion; statedWeight: boolean } | null {
+  let text = portion.toLowerCase();
+  for (const [symbol, replacement] of Object.entries(UNICODE_FRACTIONS)) {
+    text = text.split(symbol).join(replacement);
+  }
+
+  // An explicit weight in parentheses wins over household measures
+  let statedGrams: number | null = null;
+  text = text.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    const stated = parse(inner);
+    if (stated?.statedWeight && statedGrams === null) {
+      statedGrams = stated.parsed.grams;
+    }
+    return ' ';
+  });
+
+  // "1e3 g" is no way to write a portion; reject it rather than read "e3" as the unit
+  if (/\de[+-]?\d/.test(text)) {
+    return null;
+  }
+
+  text = text
+    .replace(/[–—]/g, '-')
+    // "2 x 100g", "2×100g": a count of a stated amount
+    .replace(/(\d)\s*[x×*]\s*(?=[\d.])/g, '$1 x ')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .replace(/[^a-z0-9./\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const quantityRead = text ? readQuantity(text) : { quantity: 1, rest: '', explicit: false };
+  if (!quantityRead) {
+    return null;
+  }
+  let { quantity, rest } = quantityRead;
+  const { explicit } = quantityRead;
+  if (explicit && rest.startsWith('x ') && QUANTITY_PATTERN.test(rest.slice(2))) {
+    const amount = readQuantity(rest.slice(2));
+    if (!amount) {
+      return null;
+    }
+    quantity *= amount.quantity;
+    rest = amount.rest;
+  }
+
+  const { definition, size, noun } = readUnit(rest.split(' ').filter(Boolean));
+  if (!explicit && !definition && !size && statedGrams === null) {
+    return null;
+  }
+  // A second number where the unit should be, as in "2 100g", can't be read
+  if (!definition && noun && /\d/.test(noun)) {
+    return null;
+  }
+
+  const food = foodName ? findFood(foodName)?.food ?? null : null;
+  const unit = definition?.unit ?? noun ?? size ?? 'piece';
+  const sizeMultiplier = size ? SIZE_MULTIPLIERS.get(size) ?? 1 : 1;
+
+  let grams: number | null = statedGrams;
+  if (grams === null) {
+    if (definition?.kind === 'mass') {
+      grams = quantity * definition.size;
+    } else if (definition?.kind === 'volume') {
+      // Food-specific containers ("1 glass" of wine) before generic volumes
+      const containerWeight = unitWeight(food, definition.unit);
+      grams = containerWeight
+        ? quantity * containerWeight * sizeMultiplier
+        : quantity * definition.size * sizeMultiplier * (food?.gramsPerMl ?? 1);
+    } else {
+      const weight = countWeight(unit, size, food, definition?.size ?? 0);
+      grams = weight === null ? null : quantity * weight;
+    }
+  }
+
+  return {
+    parsed: {
+      quantity: Math.round(quantity * 100) / 100,
+      unit,
+      grams: grams === null ? null : Math.round(grams),
+    },
+    statedWeight: statedGrams !== null || definition?.kind === 'mass',
+  };
+}
+
+/**
+ * Parse a free-text portion into quantity, unit and grams.
+ * Handles fractions ("1/2 cup", "½ cup"), ranges ("2-3 slices"), number words
+ * ("half a cup"), multiples ("2 x 100g"), household units and food-specific
+ * densities and piece weights.
+ * An explicit weight in parentheses ("1 burger (150g)") takes precedence.
+ * @param portion Portion as written, e.g. "4 oz" or "2 strips"
+ * @param foodName Name of the food, used for densities and piece weights
+ * @returns Parsed portion, or null when the text has no recognizable amount
+ */
+export function parsePortion(portion: string, foodName?: string): ParsedPortion | null {
+  return parse(portion, foodName)?.parsed ?? null;
+}
+
+/**
+ * Attach the parsed portion to a food item and settle its weight.
+ * A stated weight ("4 oz", "(150g)") is exact, so it beats the model's own
+ * weight guess; otherwise the model's grams are kept and the parsed weight
+ * is a fallback.
+ * @param item Food item from the provider
+ * @returns Item with `parsedPortion` and, when known, `grams`
+ */
+export function annotatePortion(item: FoodItem): FoodItem {
+  const result = parse(item.portion, item.name);
+  if (!result) {
+    return item;
+  }
+
+  const { parsed, statedWeight } = result;
+  const grams = statedWeight && parsed.grams !== null
+    ? parsed.grams
+    : item.grams ?? parsed.grams ?? undefined;
+
+  return { ...item, grams, parsedPortion: parsed };
+}
@@ -0,0 +1,28 @@
+import { config } from '../config';
+import { EstimationProvider } from './types';
+import { openaiProvider } from './openai';
+import { mockProvider } from './mock';
+import { localProvider } from './local';
+
+export type { EstimationInput, EstimationProvider, ProviderEstimation } from './types';
+
+const providers: Record<string, EstimationProvider> = {
+  [openaiProvider.name]: openaiProvider,
+  [mockProvider.name]: mockProvider,
+  [localProvider.name]: localProvider,
+};
+
+/**
+ * Get an estimation provider by name
+ * @param name Provider name, defaults to the configured provider
+ * @returns The matching provider
+ */
+export function getEstimationProvider(
+  name: string = config.estimation.provider
+): EstimationProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown estimation provider "${name}". Available providers: ${Object.keys(providers).join(', ')}`);
+  }
+  return provider;
+}
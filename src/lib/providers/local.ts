@@ -0,0 +1,55 @@
+import { config } from '../config';
+import { ApiError } from '../error';
+import { createLogger } from '../logger';
+import { parseModelJson } from '../schemas';
+import { EstimationInput, EstimationProvider } from './types';
+import { SYSTEM_PROMPT, buildUserPrompt } from './prompt';
+
+const log = createLogger('local-provider');
+
+/**
+ * Estimate calories through a locally hosted stand-in service.
+ * The service receives the input and prompts as JSON and must answer
+ * with a calorie estimation in the same JSON shape the models return.
+ */
+export const localProvider: EstimationProvider = {
+  name: 'local',
+
+  get version() {
+    return config.estimation.localUrl;
+  },
+
+  isConfigured() {
+    return Boolean(config.estimation.localUrl);
+  },
+
+  async estimate(input: EstimationInput): Promise<unknown> {
+    log.debug('Sending request', { url: config.estimation.localUrl });
+
+    let response: Response;
+    try {
+      response = await fetch(config.estimation.localUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...input,
+          system: SYSTEM_PROMPT,
+          prompt: buildUserPrompt(input),
+        }),
+        signal: AbortSignal.timeout(config.estimation.localTimeout),
+      });
+    } catch (error) {
+      log.error('Request failed', { error });
+      if ((error as Error).name === 'TimeoutError') {
+        throw new ApiError(`Local provider did not answer within ${config.estimation.localTimeout}ms`, 504, 'provider_timeout');
+      }
+      throw new ApiError('Could not reach the local provider', 502, 'provider_unavailable');
+    }
+
+    if (!response.ok) {
+      throw new ApiError(`Local provider responded with status ${response.status}`, 502, 'provider_unavailable');
+    }
+
+    return parseModelJson(await response.text());
+  },
+};
@@ -0,0 +1,136 @@
+import { createLogger } from '../logger';
+import { sumCalories } from '../macros';
+import { CalorieEstimation, PartialFoodItem } from '../types';
+import { EstimationInput, EstimationProvider, ProviderEstimation } from './types';
+
+const log = createLogger('mock-provider');
+
+// Sample meals used instead of a real model
+const MOCK_MEALS: ProviderEstimation[] = [
+  {
+    calories: 320,
+    foodItems: [
+      { name: "Grilled Chicken", calories: 180, portion: "4 oz", grams: 113, macros: { protein: 34, carbohydrates: 0, fat: 4, fiber: 0 } },
+      { name: "Mixed Greens", calories: 30, portion: "2 cups", grams: 60, macros: { protein: 2, carbohydrates: 6, fat: 0.3, fiber: 3 } },
+      { name: "Cherry Tomatoes", calories: 25, portion: "5 pieces", grams: 85, macros: { protein: 1, carbohydrates: 5, fat: 0.2, fiber: 1.5 } },
+      { name: "Balsamic Vinaigrette", calories: 85, portion: "1 tbsp", grams: 16, macros: { protein: 0, carbohydrates: 3, fat: 8, fiber: 0 } }
+    ],
+    confidence: 0.9
+  },
+  {
+    calories: 620,
+    foodItems: [
+      { name: "Spaghetti Pasta", calories: 200, portion: "1 cup", grams: 140, macros: { protein: 7, carbohydrates: 42, fat: 1, fiber: 2.5 } },
+      { name: "Tomato Sauce", calories: 100, portion: "1/2 cup", grams: 125, macros: { protein: 3, carbohydrates: 14, fat: 4, fiber: 3 } },
+      { name: "Ground Beef", calories: 250, portion: "3 oz", grams: 85, macros: { protein: 21, carbohydrates: 0, fat: 18, fiber: 0 } },
+      { name: "Parmesan Cheese", calories: 70, portion: "2 tbsp", grams: 10, macros: { protein: 6, carbohydrates: 1, fat: 5, fiber: 0 } }
+    ],
+    confidence: 0.88,
+    clarifyingQuestions: ["Was the beef drained after browning?", "Was olive oil added to the sauce?"]
+  },
+  {
+    calories: 550,
+    foodItems: [
+      { name: "Scrambled Eggs", calories: 140, portion: "2 eggs", grams: 122, macros: { protein: 12, carbohydrates: 1, fat: 10, fiber: 0 } },
+      { name: "Bacon", calories: 120, portion: "2 strips", grams: 16, macros: { protein: 8, carbohydrates: 0, fat: 9, fiber: 0 } },
+      { name: "Toast", calories: 80, portion: "1 slice", grams: 28, macros: { protein: 3, carbohydrates: 14, fat: 1, fiber: 1 } },
+      { name: "Butter", calories: 35, portion: "1 tsp", grams: 5, macros: { protein: 0, carbohydrates: 0, fat: 4, fiber: 0 } },
+      { name: "Hash Browns", calories: 175, portion: "1/2 cup", grams: 78, macros: { protein: 2, carbohydrates: 18, fat: 11, fiber: 2 } }
+    ],
+    confidence: 0.86,
+    clarifyingQuestions: ["Were the eggs scrambled with butter, oil or neither?"]
+  },
+  {
+    calories: 380,
+    foodItems: [
+      { name: "Banana", calories: 105, portion: "1 medium", grams: 118, macros: { protein: 1.3, carbohydrates: 27, fat: 0.4, fiber: 3.1 } },
+      { name: "Strawberries", calories: 45, portion: "1/2 cup", grams: 76, macros: { protein: 1, carbohydrates: 11, fat: 0.4, fiber: 2.9 } },
+      { name: "Greek Yogurt", calories: 100, portion: "1/2 cup", grams: 120, macros: { protein: 10, carbohydrates: 6, fat: 4, fiber: 0 } },
+      { name: "Honey", calories: 65, portion: "1 tbsp", grams: 21, macros: { protein: 0, carbohydrates: 17, fat: 0, fiber: 0 } },
+      { name: "Granola", calories: 65, portion: "2 tbsp", grams: 15, macros: { protein: 2, carbohydrates: 9, fat: 3, fiber: 1 }, allergens: ["gluten", "nuts"] }
+    ],
+    confidence: 0.92,
+    dietTags: ["vegetarian"]
+  }
+];
+
+// Sample batch recipe: quantities and values are for the whole pot
+const MOCK_RECIPE: ProviderEstimation = {
+  calories: 2028,
+  foodItems: [
+    { name: "Ground Beef", calories: 1153, portion: "1 lb", grams: 454, macros: { protein: 118, carbohydrates: 0, fat: 77, fiber: 0 } },
+    { name: "Black Beans", calories: 457, portion: "2 cups", grams: 346, macros: { protein: 30.8, carbohydrates: 83, fat: 1.7, fiber: 30 } },
+    { name: "Onion", calories: 44, portion: "1 medium", grams: 110, macros: { protein: 1.2, carbohydrates: 10.2, fat: 0.1, fiber: 1.9 } },
+    { name: "Tomato Sauce", calories: 250, portion: "2 cups", grams: 500, macros: { protein: 7.5, carbohydrates: 40, fat: 7.5, fiber: 9 } },
+    { name: "Olive Oil", calories: 124, portion: "1 tbsp", grams: 14, macros: { protein: 0, carbohydrates: 0, fat: 14, fiber: 0 } }
+  ],
+  confidence: 0.9
+};
+
+// Simple string hash so the same input always maps to the same meal
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+// Return a copy so callers can't mutate the fixtures
+function copyMeal(meal: ProviderEstimation): ProviderEstimation {
+  return {
+    ...meal,
+    foodItems: meal.foodItems.map(item => ({ ...item, macros: { ...item.macros }, allergens: [...item.allergens ?? []] })),
+    clarifyingQuestions: [...meal.clarifyingQuestions ?? []],
+    dietTags: [...meal.dietTags ?? []],
+  };
+}
+
+// Answers can't change canned data, so a refinement keeps the items and gains confidence
+function refineMeal(previous: CalorieEstimation): ProviderEstimation {
+  log.debug('Refining previous estimate', { items: previous.foodItems.length });
+  return {
+    calories: sumCalories(previous.foodItems),
+    foodItems: previous.foodItems.map(({ name, calories, portion, grams, macros, allergens }) => ({
+      name, calories, portion, grams, macros: { ...macros }, allergens: [...allergens ?? []],
+    })),
+    confidence: Math.min(0.95, previous.confidence + 0.05),
+    dietTags: [...previous.dietTags ?? []],
+  };
+}
+
+/**
+ * Deterministic provider that returns canned meals without calling any external API
+ */
+export const mockProvider: EstimationProvider = {
+  name: 'mock',
+  version: '1',
+
+  isConfigured() {
+    return true;
+  },
+
+  async estimate(input: EstimationInput, onPartialItems?: (items: PartialFoodItem[]) => void): Promise<unknown> {
+    if (input.kind === 'refine') {
+      return refineMeal(input.previous);
+    }
+
+    if (input.kind === 'recipe') {
+      log.debug('Returning canned recipe', { servings: input.servings });
+      return copyMeal(MOCK_RECIPE);
+    }
+
+    const seed = input.kind === 'image' ? input.image : input.description;
+    const meal = MOCK_MEALS[hashString(seed) % MOCK_MEALS.length];
+    log.debug('Returning canned meal', { items: meal.foodItems.length });
+    // Report the items one at a time, as a streaming model would
+    meal.foodItems.forEach((item, index) => {
+      onPartialItems?.(meal.foodItems.slice(0, index + 1).map(({ name, calories, portion }) => ({ name, calories, portion })));
+    });
+    // Pretend a declared reference is always visible in the photo
+    if (input.kind === 'image' && input.reference) {
+      return { ...copyMeal(meal), referenceFound: true };
+    }
+    return copyMeal(meal);
+  },
+};
@@ -0,0 +1,150 @@
+import OpenAI from 'openai';
+import { ContentFilterFinishReasonError } from 'openai/error';
+import { ChatCompletion } from 'openai/resources/chat/completions';
+import { config } from '../config';
+import { ApiError } from '../error';
+import { createLogger } from '../logger';
+import { parseModelJson } from '../schemas';
+import { extractCompleteItems } from '../partial-json';
+import { recordTokenUsage } from '../usage/tracking';
+import { PartialFoodItem } from '../types';
+import { EstimationInput, EstimationProvider } from './types';
+import { SYSTEM_PROMPT, buildUserPrompt } from './prompt';
+
+const log = createLogger('openai');
+
+let client: OpenAI | null = null;
+
+// Create the client lazily so a missing key only fails when the provider is used
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: config.openai.apiKey,
+    });
+  }
+  return client;
+}
+
+function buildRequest(input: EstimationInput, model: string) {
+  return {
+    model,
+    messages: [
+      {
+        role: "system" as const,
+        content: SYSTEM_PROMPT
+      },
+      {
+        role: "user" as const,
+        content: input.kind === 'image'
+          ? [
+              { type: "text" as const, text: buildUserPrompt(input) },
+              { type: "image_url" as const, image_url: { url: input.image } }
+            ]
+          : buildUserPrompt(input)
+      }
+    ],
+    response_format: { type: "json_object" as const },
+    max_tokens: 1000,
+  };
+}
+
+// Stream the answer, reporting each food item as soon as it is complete
+async function streamCompletion(
+  input: EstimationInput,
+  model: string,
+  onPartialItems: (items: PartialFoodItem[]) => void
+): Promise<ChatCompletion> {
+  const stream = getClient().beta.chat.completions.stream({
+    ...buildRequest(input, model),
+    // Token counts only arrive with the last chunk when asked for
+    stream_options: { include_usage: true },
+  });
+
+  let reported = 0;
+  stream.on('content', (_delta, snapshot) => {
+    const items = extractCompleteItems(snapshot);
+    if (items.length > reported) {
+      reported = items.length;
+      onPartialItems(items);
+    }
+  });
+
+  return stream.finalChatCompletion();
+}
+
+// The error a route answers with for a failed call, so callers can tell
+// a provider outage from a problem with the request
+function toApiError(error: unknown): unknown {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new ApiError('OpenAI took too long to answer. Please try again.', 504, 'provider_timeout');
+  }
+  if (error instanceof OpenAI.RateLimitError) {
+    return new ApiError('OpenAI rate limit exceeded. Please try again in a moment.', 503, 'provider_unavailable');
+  }
+  if (error instanceof OpenAI.AuthenticationError) {
+    return new ApiError('OpenAI API key is invalid or missing. Please check your configuration.', 500, 'provider_not_configured');
+  }
+  if (error instanceof ContentFilterFinishReasonError ||
+    (error instanceof OpenAI.BadRequestError && error.code === 'content_policy_violation')) {
+    return new ApiError('The image may not be appropriate for analysis. Please try a different food image.', 422, 'content_rejected');
+  }
+  if (error instanceof OpenAI.APIError) {
+    return new ApiError(`OpenAI request failed: ${error.message}`, 502, 'provider_unavailable');
+  }
+  return error;
+}
+
+function recordUsage(response: ChatCompletion) {
+  if (response.usage) {
+    recordTokenUsage({
+      model: response.model,
+      promptTokens: response.usage.prompt_tokens,
+      completionTokens: response.usage.completion_tokens,
+    });
+  }
+}
+
+/**
+ * Estimate calories with an OpenAI vision model
+ * @param model Model to call, e.g. "gpt-4o"
+ * @returns Provider backed by that model
+ */
+export function openaiProviderFor(model: string): EstimationProvider {
+  return {
+    name: 'openai',
+    version: model,
+
+    isConfigured() {
+      return Boolean(config.openai.apiKey);
+    },
+
+    async estimate(input: EstimationInput, onPartialItems?: (items: PartialFoodItem[]) => void): Promise<unknown> {
+      log.debug('Sending request for analysis', { model, streaming: Boolean(onPartialItems) });
+
+      try {
+        const response = onPartialItems
+          ? await streamCompletion(input, model, onPartialItems)
+          : await getClient().chat.completions.create(buildRequest(input, model));
+        recordUsage(response);
+
+        log.debug('Analysis completed', { model });
+
+        // Parse the response JSON
+        const content = response.choices[0].message.content;
+        if (!content) {
+          throw new ApiError('No content returned from OpenAI', 502, 'invalid_output');
+        }
+
+        return parseModelJson(content);
+      } catch (error) {
+        log.error('Error analyzing request', { model, error });
+        throw toApiError(error);
+      }
+    },
+  };
+}
+
+export const openaiProvider = openaiProviderFor(config.estimation.openaiModel);
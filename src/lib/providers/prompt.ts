@@ -0,0 +1,72 @@
+import { sumCalories } from '../macros';
+import { describeReference } from '../scale-reference';
+import { CalorieEstimation, ClarifyingAnswer, ScaleReference } from '../types';
+import { EstimationInput } from './types';
+
+export const SYSTEM_PROMPT =
+  "You are a nutritionist specialized in estimating calories in food from images and meal descriptions. Provide accurate estimations of total calories and identify individual food items with their approximate calories and macronutrients.";
+
+const RESPONSE_FORMAT =
+  "{ calories: number, foodItems: [{ name: string, calories: number, portion: string, grams: number, macros: { protein: number, carbohydrates: number, fat: number, fiber: number }, allergens: string[] }], confidence: number (0-1 scale), clarifyingQuestions: string[], dietTags: string[] }. grams is the estimated weight of the portion and macros are in grams for that portion. allergens lists any of gluten, dairy, nuts, shellfish, egg, soy that the item likely contains, including in typical sauces, breading or cooking fat. dietTags lists any of vegetarian, vegan, keto-friendly that the whole meal fits.";
+
+// Answered instead of an estimate, so a photo of something else isn't given calories
+const NOT_FOOD_INSTRUCTION =
+  " If the image shows no food or drink at all, return only { notFood: true } instead.";
+
+const CLARIFY_INSTRUCTION =
+  " If the estimate depends on details you can't tell from the input, such as cooking oil, hidden sauces, dressings or drink sizes, add up to 3 short clarifying questions to clarifyingQuestions and lower confidence accordingly. Leave it empty when you are confident.";
+
+/**
+ * Build the user instruction text for an estimation request
+ * @param input The estimation input
+ * @returns Prompt text sent alongside the input
+ */
+export function buildUserPrompt(input: EstimationInput): string {
+  return buildInstruction(input) + buildFeedback(input);
+}
+
+function buildInstruction(input: EstimationInput): string {
+  switch (input.kind) {
+    case 'image':
+      return `Please analyze this food image and estimate the calories.${buildReferenceHint(input.reference)} Return the data as JSON with the following structure: ${RESPONSE_FORMAT}${CLARIFY_INSTRUCTION}${NOT_FOOD_INSTRUCTION}`;
+    case 'text':
+      return `Please estimate the calories in this meal description: "${input.description}". Assume typical portions where none are given. Return the data as JSON with the following structure: ${RESPONSE_FORMAT}${CLARIFY_INSTRUCTION}`;
+    case 'recipe':
+      return `Please estimate the calories in this recipe, which makes ${input.servings} serving${input.servings === 1 ? '' : 's'}. Ingredients:\n${input.ingredients}\n\nReturn one food item per ingredient, using the quantity as listed as its portion, with calories and macros for the full quantity. calories is the total for the whole recipe, not per serving. Return the data as JSON with the following structure: ${RESPONSE_FORMAT}${CLARIFY_INSTRUCTION}`;
+    case 'refine':
+      return `You previously estimated this meal as: ${JSON.stringify(describePrevious(input.previous))}\n\nThe user answered your clarifying questions:\n${formatAnswers(input)}\n\nRevise the estimate using these answers, adding items such as cooking oil or sauces where the answers reveal them. Return the full revised estimate as JSON with the following structure: ${RESPONSE_FORMAT} Leave clarifyingQuestions empty.`;
+  }
+}
+
+// Tell the model about the object of known size so portions are judged against it
+function buildReferenceHint(reference?: ScaleReference): string {
+  if (!reference) {
+    return '';
+  }
+  return ` For scale, the photo shows ${describeReference(reference)}. Estimate portion sizes and grams against it, and add referenceFound: boolean to the JSON saying whether you could see it.`;
+}
+
+// Only what the model needs to revise its answer, without derived fields.
+// Totals are restated for the whole batch so recipes add up like meals.
+function describePrevious(previous: CalorieEstimation) {
+  return {
+    ...(previous.description ? { description: previous.description } : {}),
+    ...(previous.servings ? { servings: previous.servings } : {}),
+    calories: sumCalories(previous.foodItems),
+    foodItems: previous.foodItems.map(({ name, calories, portion, grams, macros, allergens }) => ({ name, calories, portion, grams, macros, allergens })),
+    confidence: previous.confidence,
+    dietTags: previous.dietTags,
+  };
+}
+
+function formatAnswers(input: { answers: ClarifyingAnswer[] }): string {
+  return input.answers.map(({ question, answer }) => `Q: ${question}\nA: ${answer}`).join('\n');
+}
+
+// Explain why a previous answer was rejected so the model can repair it
+function buildFeedback(input: EstimationInput): string {
+  if (!input.feedback?.length) {
+    return '';
+  }
+  return `\n\nYour previous answer was rejected for these reasons:\n- ${input.feedback.join('\n- ')}\nReturn corrected JSON only. The item calories must add up to the total calories.`;
+}
@@ -0,0 +1,41 @@
+import { CalorieEstimation, CalorieEstimationResult, ClarifyingAnswer, PartialFoodItem, ScaleReference } from '../types';
+
+/**
+ * Input handed to an estimation provider.
+ * `image` is either a public URL or a data URI. A `refine` input revisits a
+ * previous estimation with the user's answers to its clarifying questions.
+ */
+export type EstimationInput = (
+  | { kind: 'image'; image: string; reference?: ScaleReference }
+  | { kind: 'text'; description: string }
+  | { kind: 'recipe'; ingredients: string; servings: number }
+  | { kind: 'refine'; previous: CalorieEstimation; answers: ClarifyingAnswer[] }
+) & {
+  /** Problems with a previous answer, sent when re-asking the provider */
+  feedback?: string[];
+};
+
+/**
+ * Validated provider estimation. Meal macro totals are derived from the
+ * items afterwards, so providers only report per-item macros.
+ */
+export type ProviderEstimation = Omit<CalorieEstimationResult, 'macros' | 'source' | 'description' | 'servings' | 'calibration'> & {
+  /** Whether a declared scale reference was visible in the photo */
+  referenceFound?: boolean;
+};
+
+/**
+ * A backend capable of turning a meal into a calorie estimation
+ */
+export interface EstimationProvider {
+  name: string;
+  /** Changes whenever the same input could get a different answer, such as a new model */
+  version: string;
+  /** Whether the provider has the configuration it needs to make calls */
+  isConfigured(): boolean;
+  /**
+   * Returns the raw parsed output, which the estimator validates. Providers
+   * that stream may report the items written so far through `onPartialItems`.
+   */
+  estimate(input: EstimationInput, onPartialItems?: (items: PartialFoodItem[]) => void): Promise<unknown>;
+}
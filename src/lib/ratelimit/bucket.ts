@@ -0,0 +1,49 @@
+import { BucketConfig, RateLimitResult } from './types';
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number; // Epoch ms of the last refill
+}
+
+/**
+ * Tokens in a bucket once it has refilled for the time since it was stored
+ * @param state Bucket as last stored, or undefined for a new client
+ * @param bucket Capacity and refill rate
+ * @param now Current time in epoch ms
+ */
+export function refilledTokens(state: BucketState | undefined, bucket: BucketConfig, now: number): number {
+  if (!state) {
+    return bucket.capacity;
+  }
+  const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000;
+  return Math.min(bucket.capacity, state.tokens + elapsedSeconds * bucket.refillPerSecond);
+}
+
+/**
+ * Take a token from a bucket. Buckets start full and refill continuously,
+ * so a client may burst up to the capacity and then sustain the refill rate.
+ * @param state Bucket as last stored, or undefined for a new client
+ * @param bucket Capacity and refill rate
+ * @param now Current time in epoch ms
+ * @returns The bucket to store and the outcome of the request
+ */
+export function takeToken(
+  state: BucketState | undefined,
+  bucket: BucketConfig,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const refilled = refilledTokens(state, bucket, now);
+  const allowed = refilled >= 1;
+  const tokens = allowed ? refilled - 1 : refilled;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: bucket.capacity,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.ceil((bucket.capacity - tokens) / bucket.refillPerSecond),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / bucket.refillPerSecond),
+    },
+  };
+}
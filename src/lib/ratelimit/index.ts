@@ -0,0 +1,82 @@
+import { config } from '../config';
+import { RateLimitedError } from '../error';
+import { createLogger } from '../logger';
+import { RateLimitResult, RateLimitStore } from './types';
+import { memoryRateLimitStore } from './memory';
+
+const log = createLogger('ratelimit');
+
+export type { BucketConfig, RateLimitResult, RateLimitStore } from './types';
+
+const stores: Record<string, RateLimitStore> = {
+  [memoryRateLimitStore.name]: memoryRateLimitStore,
+};
+
+/**
+ * Get a rate limit store by name
+ * @param name Store name, defaults to the configured store
+ * @returns The matching store, or null when rate limiting is off
+ */
+export function getRateLimitStore(name: string = config.rateLimit.store): RateLimitStore | null {
+  if (name === 'off') {
+    return null;
+  }
+  const store = stores[name];
+  if (!store) {
+    throw new Error(`Unknown rate limit store "${name}". Available stores: ${Object.keys(stores).join(', ')}, off`);
+  }
+  return store;
+}
+
+// Outcome of each limited request, read back when its response is sent
+const results = new WeakMap<Request, RateLimitResult>();
+
+/**
+ * Take a token from the client's bucket
+ * @param request The incoming request, remembered for withRateLimitHeaders
+ * @param client Client key the bucket belongs to, see clientKeyFor
+ * @throws RateLimitedError when the bucket is empty
+ */
+export async function enforceRateLimit(request: Request, client: string): Promise<void> {
+  const store = getRateLimitStore();
+  if (!store) {
+    return;
+  }
+
+  const result = await store.take(client, {
+    capacity: config.rateLimit.burst,
+    refillPerSecond: config.rateLimit.perMinute / 60,
+  });
+  results.set(request, result);
+
+  if (!result.allowed) {
+    log.warn('Client is over its rate limit', { client, retryAfterSeconds: result.retryAfterSeconds });
+    throw new RateLimitedError(result.retryAfterSeconds);
+  }
+}
+
+/**
+ * Wrap a route handler so its responses carry the RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset headers, plus Retry-After when
+ * the request was refused
+ * @param handler The route handler
+ * @returns Handler with the headers added
+ */
+export function withRateLimitHeaders<Args extends unknown[]>(
+  handler: (request: Request, ...args: Args) => Promise<Response>
+): (request: Request, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    const response = await handler(request, ...args);
+    const result = results.get(request);
+    if (result) {
+      response.headers.set('RateLimit-Limit', String(result.limit));
+      response.headers.set('RateLimit-Remaining', String(result.remaining));
+      response.headers.set('RateLimit-Reset', String(result.resetSeconds));
+      response.headers.set('RateLimit-Policy', `${result.limit};w=${Math.round(result.limit / config.rateLimit.perMinute * 60)}`);
+      if (!result.allowed) {
+        response.headers.set('Retry-After', String(result.retryAfterSeconds));
+      }
+    }
+    return response;
+  };
+}
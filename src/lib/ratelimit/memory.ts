@@ -0,0 +1,33 @@
+import { BucketState, refilledTokens, takeToken } from './bucket';
+import { RateLimitStore } from './types';
+
+// Beyond this many clients, buckets that have refilled completely are dropped
+const PRUNE_ABOVE = 10000;
+
+// Kept on globalThis so every route bundle, and dev-mode reloads, share one map
+const globalBuckets = globalThis as typeof globalThis & { __rateLimitBuckets?: Map<string, BucketState> };
+const buckets = globalBuckets.__rateLimitBuckets ?? (globalBuckets.__rateLimitBuckets = new Map());
+
+/**
+ * Token buckets held in process memory. Limits apply per server instance
+ * and reset on restart.
+ */
+export const memoryRateLimitStore: RateLimitStore = {
+  name: 'memory',
+
+  async take(key, bucket) {
+    const now = Date.now();
+    const { state, result } = takeToken(buckets.get(key), bucket, now);
+    buckets.set(key, state);
+
+    if (buckets.size > PRUNE_ABOVE) {
+      // A full bucket is the same as no bucket, so forgetting it changes nothing
+      buckets.forEach((stored, storedKey) => {
+        if (refilledTokens(stored, bucket, now) >= bucket.capacity) {
+          buckets.delete(storedKey);
+        }
+      });
+    }
+    return result;
+  },
+};
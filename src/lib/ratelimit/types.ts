@@ -0,0 +1,28 @@
+/**
+ * Size and refill rate of a client's token bucket
+ */
+export interface BucketConfig {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the next token, when the request was refused */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Storage for token buckets. Taking a token is a single operation so that
+ * shared stores can do it atomically.
+ */
+export interface RateLimitStore {
+  name: string;
+  /** Refill the key's bucket for the time since it was last used, then take a token if there is one */
+  take(key: string, bucket: BucketConfig): Promise<RateLimitResult>;
+}
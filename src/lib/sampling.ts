@@ -0,0 +1,140 @@
+import { ALLERGENS, deriveDietTags } from './allergens';
+import { roundGrams, sumCalories, sumMacros } from './macros';
+import { nameSimilarity } from './nutrition-db';
+import { CalorieEstimationResult, CalorieRange, FoodItem, Macronutrients } from './types';
+
+// Items from different samples at least this similar are treated as the same food.
+// Looser than the database threshold: samples name the same food differently
+// ("Rice" vs "White rice"), while distinct foods stay well below it.
+const SAME_ITEM_THRESHOLD = 0.6;
+
+/**
+ * Median of a non-empty list of numbers
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Lowest and highest value, rounded to whole calories
+function rangeOf(values: number[]): CalorieRange {
+  return {
+    low: Math.round(Math.min(...values)),
+    high: Math.round(Math.max(...values)),
+  };
+}
+
+/**
+ * Pair each base item with the most similar unclaimed item of another sample
+ * @returns One entry per base item, undefined where the sample has no such item
+ */
+function matchItems(base: FoodItem[], sample: FoodItem[]): (FoodItem | undefined)[] {
+  const unclaimed = [...sample];
+  return base.map(item => {
+    let bestIndex = -1;
+    let bestScore = SAME_ITEM_THRESHOLD;
+    unclaimed.forEach((candidate, index) => {
+      const score = nameSimilarity(item.name, candidate.name);
+      if (score >= bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+    return bestIndex === -1 ? undefined : unclaimed.splice(bestIndex, 1)[0];
+  });
+}
+
+/**
+ * Combine the versions of one item across samples. Values are medians of the
+ * samples that found the item; samples that missed it pull the range down to 0.
+ * An allergen flagged by any sample is kept.
+ */
+function mergeItem(versions: FoodItem[], missedBy: number): FoodItem {
+  const [item] = versions;
+  const medianMacro = (key: keyof Macronutrients) => roundGrams(median(versions.map(version => version.macros[key])));
+  const allFromDatabase = versions.every(version => version.nutritionSource === 'database');
+  const weights = versions.map(version => version.grams).filter((grams): grams is number => grams !== undefined);
+
+  const merged: FoodItem = {
+    ...item,
+    calories: Math.round(median(versions.map(version => version.calories))),
+    macros: {
+      protein: medianMacro('protein'),
+      carbohydrates: medianMacro('carbohydrates'),
+      fat: medianMacro('fat'),
+      fiber: medianMacro('fiber'),
+    },
+    grams: weights.length ? Math.round(median(weights)) : undefined,
+    nutritionSource: allFromDatabase ? 'database' : 'model',
+    allergens: ALLERGENS.filter(allergen => versions.some(version => version.allergens?.includes(allergen))),
+    calorieRange: rangeOf([...versions.map(version => version.calories), ...(missedBy ? [0] : [])]),
+  };
+  if (!allFromDatabase) {
+    delete merged.databaseMatch;
+  }
+  return merged;
+}
+
+/**
+ * Aggregate independent estimations of the same meal. The sample with the
+ * median total provides the item list; every item takes the median of its
+ * matches in the other samples, and the spread becomes its calorie range.
+ * Confidence is derived from how well the samples agree instead of the
+ * model's self-reported value.
+ * @param samples Validated, grounded estimations of the same input
+ * @returns Aggregated estimation with `calorieRange` per item and for the meal
+ */
+export function aggregateSamples(samples: CalorieEstimationResult[]): CalorieEstimationResult {
+  const byTotal = [...samples].sort((a, b) => a.calories - b.calories);
+  const base = byTotal[Math.floor((byTotal.length - 1) / 2)];
+  const others = samples.filter(sample => sample !== base);
+
+  const matches = others.map(sample => matchItems(base.foodItems, sample.foodItems));
+  const foodItems = base.foodItems.map((item, index) => {
+    const found = matches.map(match => match[index]).filter((match): match is FoodItem => match !== undefined);
+    return mergeItem([item, ...found], others.length - found.length);
+  });
+
+  const calories = sumCalories(foodItems);
+  const macros = sumMacros(foodItems);
+  const totals = rangeOf(samples.map(sample => sample.calories));
+  const calorieRange = {
+    low: Math.min(totals.low, calories),
+    high: Math.max(totals.high, calories),
+  };
+
+  return {
+    ...base,
+    calories,
+    foodItems,
+    macros,
+    dietTags: deriveDietTags({ foodItems, calories, macros }, base.dietTags),
+    confidence: agreement(calorieRange),
+    calorieRange,
+    samples: samples.length,
+  };
+}
+
+/**
+ * 1 when all samples agree, falling towards 0 as the range widens
+ */
+function agreement({ low, high }: CalorieRange): number {
+  if (high === 0) {
+    return 1;
+  }
+  return Math.round(Math.max(0, 1 - (high - low) / (high + low)) * 100) / 100;
+}
+
+/**
+ * Meal range after items were edited: items with a range contribute it,
+ * the others their single calorie value
+ * @param items Food items of the meal
+ * @returns Combined range of the meal total
+ */
+export function combineRanges(items: FoodItem[]): CalorieRange {
+  return items.reduce<CalorieRange>((range, item) => ({
+    low: range.low + (item.calorieRange?.low ?? item.calories),
+    high: range.high + (item.calorieRange?.high ?? item.calories),
+  }), { low: 0, high: 0 });
+}
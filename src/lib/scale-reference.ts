@@ -0,0 +1,42 @@
+import { ScaleReference } from './types';
+
+export type ReferenceObject = ScaleReference['object'];
+
+export const REFERENCE_LABELS: Record<ReferenceObject, string> = {
+  plate: 'Plate',
+  'credit-card': 'Credit card',
+  fork: 'Fork',
+};
+
+// Typical dinner plate, used to prefill the diameter
+export const DEFAULT_PLATE_DIAMETER_CM = 27;
+
+// Plates outside this range are more likely typos than real plates
+export const PLATE_DIAMETER_MIN_CM = 10;
+export const PLATE_DIAMETER_MAX_CM = 40;
+
+/**
+ * Short label for a reference object, for display
+ * @param reference Declared reference
+ * @returns Label such as "plate (27 cm)"
+ */
+export function formatReference(reference: ScaleReference): string {
+  const label = REFERENCE_LABELS[reference.object].toLowerCase();
+  return reference.object === 'plate' ? `${label} (${reference.diameterCm} cm)` : label;
+}
+
+/**
+ * Describe a reference object with its real-world size
+ * @param reference Declared reference
+ * @returns Phrase such as "a plate 27 cm in diameter"
+ */
+export function describeReference(reference: ScaleReference): string {
+  switch (reference.object) {
+    case 'plate':
+      return `a plate ${reference.diameterCm} cm in diameter`;
+    case 'credit-card':
+      return 'a standard credit card (8.56 cm × 5.4 cm)';
+    case 'fork':
+      return 'a standard dinner fork (about 19 cm long)';
+  }
+}
@@ -0,0 +1,268 @@
+import { z } from 'zod';
+import { ALLERGENS, DIET_TAGS } from './allergens';
+import { config } from './config';
+import { PLATE_DIAMETER_MAX_CM, PLATE_DIAMETER_MIN_CM } from './scale-reference';
+import { MalformedOutputError, NotFoodError, SchemaValidationError, TotalMismatchError } from './error';
+import { ProviderEstimation } from './providers/types';
+import { Allergen, DietTag } from './types';
+
+// Item calories may differ from the meal total by this much before we re-ask
+const TOTAL_TOLERANCE_ABS = 10;
+const TOTAL_TOLERANCE_RATIO = 0.05;
+
+/**
+ * Turn common string deviations into numbers:
+ * "350 kcal" -> 350, "1,200" -> 1200, "300-400" -> 350
+ */
+function coerceNumber(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const text = value.replace(/,/g, '');
+  const range = text.match(/(\d+(?:\.\d+)?)\s*(?:-|–|to)\s*(\d+(?:\.\d+)?)/);
+  if (range) {
+    return (Number(range[1]) + Number(range[2])) / 2;
+  }
+
+  const match = text.match(/-?\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : value;
+}
+
+// Accept confidence as 0-1 or as a percentage ("85%", 85)
+function coerceConfidence(value: unknown): unknown {
+  const number = coerceNumber(value);
+  return typeof number === 'number' && number > 1 && number <= 100 ? number / 100 : number;
+}
+
+// Keep the non-empty question strings, accepting a single string or null
+function coerceQuestions(value: unknown): unknown {
+  if (value === null || value === undefined) {
+    return [];
+  }
+  const list = Array.isArray(value) ? value : [value];
+  return list.filter(question => typeof question !== 'string' || question.trim() !== '');
+}
+
+/**
+ * Build a coercion for tag lists: accept a single string or null, map
+ * synonyms onto our names ("milk" -> "dairy") and drop anything unknown
+ */
+function coerceTags<T extends string>(known: readonly T[], synonyms: Record<string, T>) {
+  return (value: unknown): T[] => {
+    const list = Array.isArray(value) ? value : value ? [value] : [];
+    const tags = new Set<T>();
+    for (const entry of list) {
+      if (typeof entry !== 'string') {
+        continue;
+      }
+      const name = entry.trim().toLowerCase().replace(/[\s_]+/g, '-');
+      const tag = (known as readonly string[]).includes(name) ? name as T : synonyms[name];
+      if (tag) {
+        tags.add(tag);
+      }
+    }
+    return known.filter(tag => tags.has(tag));
+  };
+}
+
+const coerceAllergens = coerceTags(ALLERGENS, {
+  wheat: 'gluten', milk: 'dairy', lactose: 'dairy', nut: 'nuts', peanut: 'nuts', peanuts: 'nuts',
+  'tree-nuts': 'nuts', 'tree-nut': 'nuts', shrimp: 'shellfish', crustaceans: 'shellfish', eggs: 'egg', soya: 'soy',
+});
+
+const coerceDietTags = coerceTags(DIET_TAGS, { keto: 'keto-friendly', ketogenic: 'keto-friendly', 'low-carb': 'keto-friendly' });
+
+// Map alternative key names models tend to use onto ours
+function renameKeys(aliases: Record<string, string>) {
+  return (value: unknown): unknown => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return value;
+    }
+    const renamed: Record<string, unknown> = { ...value as Record<string, unknown> };
+    for (const [alias, key] of Object.entries(aliases)) {
+      if (renamed[key] === undefined && renamed[alias] !== undefined) {
+        renamed[key] = renamed[alias];
+        delete renamed[alias];
+      }
+    }
+    return renamed;
+  };
+}
+
+// z.enum needs non-empty tuples
+const ALLERGENS_TUPLE = ALLERGENS as [Allergen, ...Allergen[]];
+const DIET_TAGS_TUPLE = DIET_TAGS as [DietTag, ...DietTag[]];
+
+const amountSchema = z.preprocess(coerceNumber, z.number().finite().nonnegative());
+
+// More than a few questions is a survey, not a clarification
+const MAX_CLARIFYING_QUESTIONS = 3;
+
+export const macronutrientsSchema = z.preprocess(
+  renameKeys({ carbs: 'carbohydrates', carbohydrate: 'carbohydrates', fibre: 'fiber' }),
+  z.object({
+    protein: amountSchema,
+    carbohydrates: amountSchema,
+    fat: amountSchema,
+    fiber: amountSchema.default(0),
+  })
+);
+
+export const foodItemSchema = z.preprocess(
+  renameKeys({ kcal: 'calories', food: 'name', serving: 'portion', weight: 'grams' }),
+  z.object({
+    name: z.string().trim().min(1, "Food item name is required"),
+    calories: amountSchema,
+    portion: z.preprocess(
+      value => typeof value === 'number' ? String(value) : value,
+      z.string().trim().min(1, "Portion is required")
+    ),
+    grams: amountSchema.optional(),
+    macros: macronutrientsSchema,
+    allergens: z.preprocess(coerceAllergens, z.array(z.enum(ALLERGENS_TUPLE))),
+  })
+);
+
+export const estimationSchema = z.preprocess(
+  renameKeys({
+    items: 'foodItems',
+    food_items: 'foodItems',
+    totalCalories: 'calories',
+    total_calories: 'calories',
+    questions: 'clarifyingQuestions',
+    clarifying_questions: 'clarifyingQuestions',
+  }),
+  z.object({
+    calories: amountSchema,
+    foodItems: z.array(foodItemSchema).min(1, "At least one food item is required"),
+    confidence: z.preprocess(coerceConfidence, z.number().min(0).max(1)),
+    clarifyingQuestions: z.preprocess(
+      coerceQuestions,
+      z.array(z.string().trim()).transform(questions => questions.slice(0, MAX_CLARIFYING_QUESTIONS))
+    ),
+    dietTags: z.preprocess(coerceDietTags, z.array(z.enum(DIET_TAGS_TUPLE))),
+    referenceFound: z.preprocess(
+      value => value === 'true' ? true : value === 'false' ? false : value ?? undefined,
+      z.boolean().optional()
+    ),
+  })
+);
+
+// Opt-in number of independent estimates to aggregate into a range
+export const samplesSchema = z.number()
+  .int("samples must be a whole number")
+  .min(1, "samples must be at least 1")
+  .max(config.estimation.maxSamples, `samples must be at most ${config.estimation.maxSamples}`)
+  .optional();
+
+export const scaleReferenceSchema = z.discriminatedUnion('object', [
+  z.object({
+    object: z.literal('plate'),
+    diameterCm: z.number()
+      .min(PLATE_DIAMETER_MIN_CM, `Plate diameter must be at least ${PLATE_DIAMETER_MIN_CM} cm`)
+      .max(PLATE_DIAMETER_MAX_CM, `Plate diameter must be at most ${PLATE_DIAMETER_MAX_CM} cm`),
+  }),
+  z.object({ object: z.literal('credit-card') }),
+  z.object({ object: z.literal('fork') }),
+]);
+
+const calorieRangeSchema = z.object({
+  low: z.number().nonnegative(),
+  high: z.number().nonnegative(),
+});
+
+const strictMacrosSchema = z.object({
+  protein: z.number().nonnegative(),
+  carbohydrates: z.number().nonnegative(),
+  fat: z.number().nonnegative(),
+  fiber: z.number().nonnegative(),
+});
+
+// Unknown keys pass through so fields added to the estimation survive a round trip
+export const calorieEstimationSchema = z.object({
+  calories: z.number().nonnegative(),
+  macros: strictMacrosSchema,
+  foodItems: z.array(z.object({
+    name: z.string().trim().min(1, "Food item name is required"),
+    calories: z.number().nonnegative(),
+    portion: z.string().trim().min(1, "Portion is required"),
+    grams: z.number().nonnegative().optional(),
+    parsedPortion: z.object({
+      quantity: z.number(),
+      unit: z.string(),
+      grams: z.number().nullable(),
+    }).optional(),
+    macros: strictMacrosSchema,
+    nutritionSource: z.enum(['database', 'model']).optional(),
+    databaseMatch: z.object({
+      name: z.string(),
+      score: z.number(),
+    }).optional(),
+    calorieRange: calorieRangeSchema.optional(),
+    allergens: z.array(z.enum(ALLERGENS_TUPLE)).optional(),
+  }).passthrough()).min(1, "At least one food item is required"),
+  confidence: z.number().min(0).max(1),
+  source: z.enum(['image', 'text', 'recipe']),
+  imageUrl: z.string().optional(),
+  description: z.string().optional(),
+  servings: z.number().int().positive().optional(),
+  clarifyingQuestions: z.array(z.string()).optional(),
+  dietTags: z.array(z.enum(DIET_TAGS_TUPLE)).optional(),
+  calibration: z.object({
+    used: z.boolean(),
+    reference: scaleReferenceSchema.optional(),
+  }).optional(),
+  calorieRange: calorieRangeSchema.optional(),
+  samples: z.number().int().positive().optional(),
+}).passthrough();
+
+export const clarifyingAnswerSchema = z.object({
+  question: z.string().trim().min(1, "Question is required"),
+  answer: z.string().trim().min(1, "Answer is required").max(500, "Answer is too long (max 500 characters)"),
+});
+
+/**
+ * Parse raw model text as JSON
+ * @param content Text returned by the model
+ * @returns Parsed JSON value
+ */
+export function parseModelJson(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new MalformedOutputError(
+      'Model output is not valid JSON',
+      [error instanceof Error ? error.message : String(error)]
+    );
+  }
+}
+
+/**
+ * Validate and normalize raw provider output
+ * @param raw Parsed provider output
+ * @returns Estimation that matches the schema and whose items add up to the total
+ * @throws NotFoodError when the model says the image shows no food
+ */
+export function validateEstimation(raw: unknown): ProviderEstimation {
+  if (typeof raw === 'object' && raw !== null && (raw as { notFood?: unknown }).notFood === true) {
+    throw new NotFoodError();
+  }
+
+  const parsed = estimationSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new SchemaValidationError(
+      'Model output does not match the estimation schema',
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'result'}: ${issue.message}`)
+    );
+  }
+
+  const estimation = parsed.data;
+  const itemsTotal = estimation.foodItems.reduce((sum, item) => sum + item.calories, 0);
+  const tolerance = Math.max(TOTAL_TOLERANCE_ABS, estimation.calories * TOTAL_TOLERANCE_RATIO);
+  if (Math.abs(itemsTotal - estimation.calories) > tolerance) {
+    throw new TotalMismatchError(itemsTotal, estimation.calories);
+  }
+
+  return estimation;
+}
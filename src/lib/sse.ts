@@ -0,0 +1,49 @@
+import { EstimationEvent } from './types';
+
+/**
+ * Encode an estimation event as a Server-Sent Events frame. The stage is the
+ * event name and the remaining fields are the JSON data.
+ * @param event Event to send
+ * @returns Frame text, terminated by a blank line
+ */
+export function formatEvent(event: EstimationEvent): string {
+  const { stage, ...data } = event;
+  return `event: ${stage}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Decode the frames in a chunk of a Server-Sent Events stream. Frames can be
+ * split across chunks, so the unfinished tail is returned to be prepended to
+ * the next chunk.
+ * @param buffer Text received so far that hasn't been decoded yet
+ * @returns Decoded events and the leftover text
+ */
+export function parseEvents(buffer: string): { events: EstimationEvent[]; rest: string } {
+  const frames = buffer.split('\n\n');
+  const rest = frames.pop() ?? '';
+  const events: EstimationEvent[] = [];
+
+  for (const frame of frames) {
+    let stage = 'message';
+    const data: string[] = [];
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        stage = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trim());
+      }
+    }
+
+    // Comment-only frames such as keep-alives carry no data
+    if (!data.length) {
+      continue;
+    }
+    try {
+      events.push({ stage, ...JSON.parse(data.join('\n')) } as EstimationEvent);
+    } catch (error) {
+      console.warn('Ignoring malformed stream event:', frame);
+    }
+  }
+
+  return { events, rest };
+}
@@ -1,22 +1,287 @@
+// Macronutrient amounts in grams
+export interface Macronutrients {
+  protein: number;
+  carbohydrates: number;
+  fat: number;
+  fiber: number;
+}
+
+// A portion broken down into numbers, e.g. "1/2 cup" -> { quantity: 0.5, unit: 'cup', grams: 120 }
+export interface ParsedPortion {
+  quantity: number;
+  unit: string;
+  grams: number | null; // Null when the weight can't be derived
+}
+
+// Spread of calorie values across independent estimates
+export interface CalorieRange {
+  low: number;
+  high: number;
+}
+
+// Allergens flagged per food item
+export type Allergen = 'gluten' | 'dairy' | 'nuts' | 'shellfish' | 'egg' | 'soy';
+
+// Diets a whole meal fits
+export type DietTag = 'vegetarian' | 'vegan' | 'keto-friendly';
+
+// An object of known size in the photo, used to judge portion sizes
+export type ScaleReference =
+  | { object: 'plate'; diameterCm: number }
+  | { object: 'credit-card' }
+  | { object: 'fork' };
+
+// Whether portions were estimated against a declared reference
+export interface Calibration {
+  used: boolean; // False when no reference was declared or the model couldn't find it
+  reference?: ScaleReference;
+}
+
+// Where an item's calories and macros came from
+export type NutritionSource = 'database' | 'model';
+
 export interface FoodItem {
   name: string;
   calories: number;
   portion: string;
+  grams?: number; // Estimated weight of the portion
+  parsedPortion?: ParsedPortion;
+  macros: Macronutrients;
+  nutritionSource?: NutritionSource;
+  databaseMatch?: {
+    name: string; // Reference food the values were taken from
+    score: number; // 0-1 name similarity
+  };
+  calorieRange?: CalorieRange; // Only set for multi-sample estimations
+  allergens?: Allergen[];
 }
 
+// What the estimate was based on
+export type EstimationSource = 'image' | 'text' | 'recipe';
+
 export interface CalorieEstimation {
-  calories: number;
-  foodItems: FoodItem[];
+  calories: number; // Per serving for recipes
+  macros: Macronutrients; // Meal totals, per serving for recipes
+  foodItems: FoodItem[]; // Recipe ingredients are listed for the whole batch
   confidence: number; // 0-1 scale
-  imageUrl: string;
+  source: EstimationSource;
+  imageUrl?: string; // Only set for image estimations
+  description?: string; // Meal description or recipe ingredient list
+  servings?: number; // Only set for recipes
+  clarifyingQuestions?: string[]; // Asked when the estimate hinges on details the input doesn't show
+  dietTags?: DietTag[];
+  calibration?: Calibration; // Only set for image estimations
+  cacheHit?: boolean; // Served from the result cache instead of a new provider call
+  calorieRange?: CalorieRange; // Only set for multi-sample estimations
+  samples?: number; // Number of independent estimates aggregated into this one
+}
+
+// The user's answer to one clarifying question
+export interface ClarifyingAnswer {
+  question: string;
+  answer: string;
 }
 
+// Estimation as returned by a provider, before an image URL is attached
+export type CalorieEstimationResult = Omit<CalorieEstimation, 'imageUrl'>;
+
 export interface CalorieEstimationRequest {
   image: string; // Base64 encoded image
+  samples?: number; // Independent estimates to aggregate into a range
+  reference?: ScaleReference; // Object of known size in the photo
+}
+
+export interface TextEstimationRequest {
+  description: string; // Free-text meal description
+  samples?: number; // Independent estimates to aggregate into a range
+}
+
+export interface RecipeEstimationRequest {
+  ingredients: string; // Ingredient list with quantities, one per line
+  servings: number;
+}
+
+export interface RefineEstimationRequest {
+  estimation: CalorieEstimation; // Preliminary result the questions came with
+  answers: ClarifyingAnswer[];
+}
+
+// Food item as the model writes it, before validation and grounding
+export type PartialFoodItem = Pick<FoodItem, 'name'> & Partial<Pick<FoodItem, 'calories' | 'portion'>>;
+
+// Staged progress of a streamed estimation, sent as Server-Sent Events
+export type EstimationEvent =
+  | { stage: 'received' }
+  | { stage: 'normalized'; sizeKb: number }
+  | { stage: 'model_started'; provider: string; attempt: number; sample?: number }
+  | { stage: 'partial_items'; items: PartialFoodItem[] }
+  | { stage: 'result'; data: CalorieEstimation; meta?: ResponseMeta }
+  | { stage: 'error'; error: string; code: ErrorCode; status: number; requestId?: string };
+
+export type EstimationStage = EstimationEvent['stage'];
+
+export interface BatchImage {
+  id: string; // Chosen by the client to match results to its images
+  image: string;
+  reference?: ScaleReference;
+}
+
+export interface BatchEstimationRequest {
+  images: BatchImage[];
+  samples?: number;
+}
+
+export type BatchItemResult =
+  | { id: string; success: true; data: CalorieEstimation }
+  | { id: string; success: false; error: string; code: ErrorCode; statusCode: number };
+
+export interface BatchEstimationResult {
+  results: BatchItemResult[]; // Same order as the request
+  // Totals over the images that succeeded
+  total: Pick<CalorieEstimation, 'calories' | 'macros'>;
+  succeeded: number;
+  failed: number;
+}
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+// Estimation run in the background and collected by polling
+export interface EstimationJob {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  result?: CalorieEstimation;
+  usage?: EstimationUsage; // Set with the result
+  error?: string;
+  code?: ErrorCode; // Set with the error
+  statusCode?: number; // HTTP status the error would have had on a direct request
+}
+
+// Tokens reported by one model call
+export interface TokenUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What a request cost, over all of its model calls including retries and samples
+export interface EstimationUsage {
+  model: string | null; // Null when no model was called, e.g. on a cache hit
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number | null; // Null when a model has no known price
+  latencyMs: number;
+}
+
+// One tracked request, as kept for the usage report
+export interface UsageRecord extends EstimationUsage {
+  timestamp: string;
+  route: string;
+  client: string; // Client key the request was made with, see clientKeyFor
+  success: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  failed: number;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number; // Requests without a known price count as 0
+  unpricedRequests: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageReport {
+  from: string; // First day covered, YYYY-MM-DD in UTC
+  to: string;
+  total: UsageTotals;
+  byRoute: Record<string, UsageTotals>;
+  byDay: (UsageTotals & { date: string; routes: Record<string, UsageTotals> })[];
+}
+
+// Which spend cap or quota turned a request away
+export type QuotaCode = 'daily_budget_exceeded' | 'client_request_quota_exceeded' | 'client_budget_exceeded';
+
+// A client sent requests faster than its rate limit allows
+export type RateLimitCode = 'rate_limited';
+
+// Why a request was refused before it ran: no valid credentials, or missing scope
+export type AuthCode = 'unauthenticated' | 'forbidden';
+
+/**
+ * Why a request failed, for clients to act on instead of the message,
+ * which is prose and may change. network_error is never sent by the
+ * server: the client uses it when no response arrived at all.
+ */
+export type ErrorCode =
+  | AuthCode
+  | RateLimitCode
+  | QuotaCode
+  | 'invalid_request' // Body missing, malformed or failing validation
+  | 'image_too_large'
+  | 'not_food' // The photo doesn't show a meal
+  | 'content_rejected' // The provider refused to analyze the input
+  | 'not_found'
+  | 'not_job_owner' // The job was started by another API key or browser session
+  | 'no_nutrition_data' // An edited item is unknown and no provider can estimate it
+  | 'invalid_output' // The model's answer couldn't be made into an estimation
+  | 'provider_timeout'
+  | 'provider_unavailable' // The provider failed or is over its own limits
+  | 'provider_not_configured'
+  | 'upload_failed' // The image couldn't be stored for the provider
+  | 'not_ready'
+  | 'internal_error'
+  | 'network_error';
+
+// What an API key or browser session may do; admin may do everything,
+// including the usage report and debug routes
+export type ApiScope = 'estimate' | 'admin';
+
+// Who a request was made by, as established by the auth guard
+export interface Principal {
+  kind: 'api-key' | 'session';
+  id: string; // Key id, or the session's random id
+  scopes: ApiScope[];
+}
+
+export interface SessionInfo {
+  expiresAt: string;
+}
+
+// Outcome of one readiness check: warnings are reported but don't stop traffic
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface ReadinessCheck {
+  status: CheckStatus;
+  detail?: string; // What is wrong, or which adapter was checked; never a secret
+}
+
+export interface ReadinessReport {
+  status: 'ready' | 'not_ready'; // not_ready when any check failed
+  version: string; // Package version
+  build: string | null; // BUILD_VERSION, or the deployed commit on Vercel
+  checks: Record<'config' | 'provider' | 'jobs' | 'usage' | 'cache' | 'rateLimit', ReadinessCheck>;
+  time: string;
+}
+
+export interface HealthReport {
+  status: 'ok';
+  uptimeSeconds: number;
+  time: string;
+}
+
+export interface ResponseMeta {
+  usage?: EstimationUsage;
 }
 
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
-} 
\ No newline at end of file
+  code?: ErrorCode; // Set on every error
+  requestId?: string; // Set on errors, matching the X-Request-Id header and the server's logs
+  meta?: ResponseMeta;
+}
@@ -0,0 +1,115 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config';
+import { QuotaExceededError } from '../error';
+import { UsageRecord } from '../types';
+import { providerWithinBudget } from './budget';
+import { getUsageStore } from './index';
+import { recordTokenUsage, trackUsage } from './tracking';
+
+const budget = { ...config.budget };
+
+// Run a request for a client that makes one model call
+async function spend(client: string, promptTokens: number, model = 'gpt-4o') {
+  await trackUsage('estimate-image', client, async () => {
+    recordTokenUsage({ model, promptTokens, completionTokens: 0 });
+  });
+}
+
+function rejectedWith(code: string) {
+  return (error: unknown) => error instanceof QuotaExceededError && error.code === code;
+}
+
+describe('providerWithinBudget', () => {
+  beforeEach(() => {
+    // Each test starts from an empty usage log, no running totals and every cap off
+    const usage = globalThis as typeof globalThis & { __usageRecords?: UsageRecord[]; __dailySpend?: unknown };
+    usage.__usageRecords?.splice(0);
+    usage.__dailySpend = undefined;
+    Object.assign(config.budget, budget, { dailyUsd: 0, clientDailyRequests: 0, clientDailyUsd: 0, onExceeded: 'reject' });
+    config.estimation.provider = 'mock';
+  });
+
+  it('lets requests through under every cap', async () => {
+    config.budget.dailyUsd = 1;
+    // 200k gpt-4o prompt tokens cost $0.50
+    await spend('key:a', 200000);
+
+    assert.equal((await providerWithinBudget('key:a')).name, 'mock');
+  });
+
+  it('rejects every client once the daily budget is spent', async () => {
+    config.budget.dailyUsd = 1;
+    await spend('key:a', 240000);
+    await spend('key:b', 240000);
+
+    await assert.rejects(providerWithinBudget('key:c'), rejectedWith('daily_budget_exceeded'));
+  });
+
+  it('counts usage saved before the totals were first read', async () => {
+    config.budget.dailyUsd = 1;
+    await spend('key:a', 480000);
+    await getUsageStore().append({
+      timestamp: new Date().toISOString(),
+      route: 'estimate-image',
+      client: 'key:b',
+      success: true,
+      model: 'gpt-4o',
+      calls: 1,
+      promptTokens: 0,
+      completionTokens: 0,
+      costUsd: 0.2,
+      latencyMs: 1000,
+    });
+
+    await assert.rejects(providerWithinBudget('key:c'), rejectedWith('daily_budget_exceeded'));
+  });
+
+  it("rejects a client over its own quota, and only that client", async () => {
+    config.budget.clientDailyRequests = 2;
+    await providerWithinBudget('key:a');
+    await spend('key:a', 1000);
+    await spend('key:a', 1000);
+
+    await assert.rejects(providerWithinBudget('key:a'), rejectedWith('client_request_quota_exceeded'));
+    assert.equal((await providerWithinBudget('key:b')).name, 'mock');
+  });
+
+  it('counts a model without a price at the highest known price', async () => {
+    config.budget.clientDailyUsd = 0.5;
+    await providerWithinBudget('key:a');
+    // Free if unpriced usage counted as nothing; $1 at gpt-4-turbo's $10 per million
+    await spend('key:a', 100000, 'unlisted-model');
+
+    await assert.rejects(providerWithinBudget('key:a'), rejectedWith('client_budget_exceeded'));
+  });
+
+  it('reads the usage store once, not on every check', async () => {
+    config.budget.dailyUsd = 1;
+    const store = getUsageStore();
+    const list = store.list;
+    let reads = 0;
+    store.list = since => {
+      reads++;
+      return list(since);
+    };
+    try {
+      for (let i = 0; i < 3; i++) {
+        await providerWithinBudget('key:a');
+        await spend('key:a', 1000);
+      }
+    } finally {
+      store.list = list;
+    }
+    assert.equal(reads, 1);
+  });
+
+  it('falls back to the mock provider when told to', async () => {
+    config.estimation.provider = 'openai';
+    config.budget.clientDailyUsd = 0.1;
+    config.budget.onExceeded = 'mock';
+    await spend('key:a', 80000);
+
+    assert.equal((await providerWithinBudget('key:a')).name, 'mock');
+  });
+});
@@ -0,0 +1,111 @@
+import { config } from '../config';
+import { QuotaExceededError } from '../error';
+import { createLogger } from '../logger';
+import { EstimationProvider, getEstimationProvider } from '../providers';
+import { openaiProviderFor } from '../providers/openai';
+import { Principal, QuotaCode } from '../types';
+import { DailySpend, spentToday } from './spend';
+
+const log = createLogger('budget');
+
+/**
+ * The address the request reached our proxy from: the last X-Forwarded-For
+ * hop, which the proxy appended. Earlier hops are whatever the client sent,
+ * so they are never used. X-Real-IP is only used without X-Forwarded-For.
+ * @param request The incoming request
+ */
+function clientAddress(request: Request): string | null {
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length) {
+    return hops[hops.length - 1];
+  }
+  return request.headers.get('x-real-ip')?.trim() || null;
+}
+
+/**
+ * Key that quotas and usage records are filed under. API key holders are
+ * keyed by their key; browser sessions, which anyone can start, by address.
+ * @param request The incoming request
+ * @param principal Who made the request, as established by the auth guard
+ * @returns The client key
+ */
+export function clientKeyFor(request: Request, principal: Principal): string {
+  if (principal.kind === 'api-key') {
+    return `key:${principal.id}`;
+  }
+  const address = clientAddress(request);
+  return address ? `ip:${address}` : 'anonymous';
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+function secondsUntilTomorrow(): number {
+  const tomorrow = startOfToday().getTime() + 24 * 60 * 60 * 1000;
+  return Math.ceil((tomorrow - Date.now()) / 1000);
+}
+
+// The first cap today's usage has reached, if any
+async function exceededCap(client: string): Promise<{ code: QuotaCode; message: string } | null> {
+  const { dailyUsd, clientDailyRequests, clientDailyUsd } = config.budget;
+  if (!dailyUsd && !clientDailyRequests && !clientDailyUsd) {
+    return null;
+  }
+
+  let spend: DailySpend;
+  try {
+    spend = await spentToday();
+  } catch (error) {
+    // An unreadable usage log shouldn't take every route down with it
+    log.error("Could not read today's usage, letting the request through", { error });
+    return null;
+  }
+  if (dailyUsd && spend.usd >= dailyUsd) {
+    return { code: 'daily_budget_exceeded', message: `The daily estimation budget of $${dailyUsd} is used up` };
+  }
+
+  const own = spend.clients.get(client) ?? { requests: 0, usd: 0 };
+  if (clientDailyRequests && own.requests >= clientDailyRequests) {
+    return { code: 'client_request_quota_exceeded', message: `Daily limit of ${clientDailyRequests} estimations reached` };
+  }
+  if (clientDailyUsd && own.usd >= clientDailyUsd) {
+    return { code: 'client_budget_exceeded', message: `Daily estimation budget of $${clientDailyUsd} for this client is used up` };
+  }
+  return null;
+}
+
+/**
+ * Pick the provider a request may use, given what has been spent today.
+ * Under every cap this is the configured provider. Over a cap the request
+ * gets the fallback chosen with `BUDGET_EXCEEDED_ACTION`, or is rejected.
+ * Caps are checked before the request starts, so one that starts just
+ * under a cap may finish over it. Usage of a model without a price counts
+ * at the highest known price.
+ * @param client Client key of the request, see clientKeyFor
+ * @returns The provider to estimate with
+ * @throws QuotaExceededError when the request is rejected
+ */
+export async function providerWithinBudget(client: string): Promise<EstimationProvider> {
+  const provider = getEstimationProvider();
+  const exceeded = await exceededCap(client);
+  if (!exceeded) {
+    return provider;
+  }
+
+  const action = config.budget.onExceeded;
+  log.warn('Spend cap exceeded', { code: exceeded.code, client, action });
+  if (action === 'mock') {
+    return getEstimationProvider('mock');
+  }
+  // Only OpenAI has a cheaper model to switch to
+  if (action === 'cheaper-model' && provider.name === 'openai') {
+    return openaiProviderFor(config.budget.fallbackModel);
+  }
+  throw new QuotaExceededError(`${exceeded.message}. Try again tomorrow.`, exceeded.code, secondsUntilTomorrow());
+}
@@ -0,0 +1,68 @@
+import { constants, promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { createLogger } from '../logger';
+import { UsageRecord } from '../types';
+import { UsageStore } from './types';
+
+const log = createLogger('usage');
+
+function logPath(): string {
+  return path.resolve(config.usage.file);
+}
+
+/**
+ * Usage records appended as JSON lines to `USAGE_LOG_FILE`, so reports
+ * survive restarts. The file is read in full for each report.
+ */
+export const fileUsageStore: UsageStore = {
+  name: 'file',
+
+  async append(record) {
+    await fs.mkdir(path.dirname(logPath()), { recursive: true });
+    await fs.appendFile(logPath(), JSON.stringify(record) + '\n');
+  },
+
+  async list(since) {
+    let contents: string;
+    try {
+      contents = await fs.readFile(logPath(), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const from = since.toISOString();
+    const records: UsageRecord[] = [];
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const record: UsageRecord = JSON.parse(line);
+        if (record.timestamp >= from) {
+          records.push(record);
+        }
+      } catch (error) {
+        // A line cut short by a crash mid-write
+        log.warn('Skipping unreadable usage record');
+      }
+    }
+    return records;
+  },
+
+  async check() {
+    await fs.mkdir(path.dirname(logPath()), { recursive: true });
+    await fs.access(path.dirname(logPath()), constants.W_OK);
+    try {
+      await fs.access(logPath(), constants.R_OK | constants.W_OK);
+    } catch (error) {
+      // Appending creates the file
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  },
+};
@@ -0,0 +1,24 @@
+import { config } from '../config';
+import { UsageStore } from './types';
+import { memoryUsageStore } from './memory';
+import { fileUsageStore } from './file';
+
+export type { UsageStore } from './types';
+
+const stores: Record<string, UsageStore> = {
+  [memoryUsageStore.name]: memoryUsageStore,
+  [fileUsageStore.name]: fileUsageStore,
+};
+
+/**
+ * Get a usage store by name
+ * @param name Store name, defaults to the configured store
+ * @returns The matching store
+ */
+export function getUsageStore(name: string = config.usage.store): UsageStore {
+  const store = stores[name];
+  if (!store) {
+    throw new Error(`Unknown usage store "${name}". Available stores: ${Object.keys(stores).join(', ')}`);
+  }
+  return store;
+}
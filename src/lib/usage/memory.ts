@@ -0,0 +1,32 @@
+import { config } from '../config';
+import { UsageRecord } from '../types';
+import { UsageStore } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Kept on globalThis so every route bundle, and dev-mode reloads, share one log
+const globalUsage = globalThis as typeof globalThis & { __usageRecords?: UsageRecord[] };
+const records = globalUsage.__usageRecords ?? (globalUsage.__usageRecords = []);
+
+/**
+ * Usage records held in process memory, for the retention period. Lost on
+ * restart and not shared between server instances.
+ */
+export const memoryUsageStore: UsageStore = {
+  name: 'memory',
+
+  async append(record) {
+    records.push(record);
+
+    // Records arrive in time order, so expired ones are at the front
+    const cutoff = new Date(Date.now() - config.usage.retentionDays * DAY_MS).toISOString();
+    while (records.length && records[0].timestamp < cutoff) {
+      records.shift();
+    }
+  },
+
+  async list(since) {
+    const from = since.toISOString();
+    return records.filter(record => record.timestamp >= from);
+  },
+};
@@ -0,0 +1,71 @@
+import { config } from '../config';
+import { createLogger } from '../logger';
+import { TokenUsage } from '../types';
+
+const log = createLogger('usage');
+
+export interface ModelPrice {
+  prompt: number; // USD per million prompt tokens
+  completion: number; // USD per million completion tokens
+}
+
+// List prices at the time of writing; override with MODEL_PRICES when they change
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+};
+
+function parsePriceOverrides(json: string): Record<string, ModelPrice> {
+  if (!json) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(json);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch (error) {
+    log.warn('Ignoring MODEL_PRICES, it is not valid JSON', { error });
+    return {};
+  }
+}
+
+const prices: Record<string, ModelPrice> = { ...DEFAULT_PRICES, ...parsePriceOverrides(config.usage.prices) };
+
+/**
+ * Price for a model. The API reports dated names such as
+ * `gpt-4o-2024-08-06`, so the longest matching prefix wins.
+ * @param model Model name as reported by the API
+ * @returns The price, or null when the model isn't in the table
+ */
+export function priceFor(model: string): ModelPrice | null {
+  const match = Object.keys(prices)
+    .filter(name => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+/**
+ * Cost of one model call
+ * @param usage Tokens the call used
+ * @returns Cost in USD, or null when the model has no known price
+ */
+export function costOf(usage: TokenUsage): number | null {
+  const price = priceFor(usage.model);
+  if (!price) {
+    return null;
+  }
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1000000;
+}
+
+/**
+ * The highest prompt and completion prices in the table, for counting usage
+ * of a model without a price against the spend caps
+ */
+export function highestPrice(): ModelPrice {
+  return Object.keys(prices).reduce<ModelPrice>((highest, name) => ({
+    prompt: Math.max(highest.prompt, prices[name].prompt),
+    completion: Math.max(highest.completion, prices[name].completion),
+  }), { prompt: 0, completion: 0 });
+}
@@ -0,0 +1,73 @@
+import { UsageRecord, UsageReport, UsageTotals } from '../types';
+import { getUsageStore } from './index';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    failed: 0,
+    calls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    costUsd: 0,
+    unpricedRequests: 0,
+    averageLatencyMs: 0,
+  };
+}
+
+function addRecord(totals: UsageTotals, record: UsageRecord) {
+  // Running average, so totals never need the raw latencies again
+  totals.averageLatencyMs = Math.round(
+    (totals.averageLatencyMs * totals.requests + record.latencyMs) / (totals.requests + 1)
+  );
+  totals.requests++;
+  totals.failed += record.success ? 0 : 1;
+  totals.calls += record.calls;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  if (record.costUsd === null) {
+    totals.unpricedRequests++;
+  } else {
+    totals.costUsd = Math.round((totals.costUsd + record.costUsd) * 1000000) / 1000000;
+  }
+}
+
+/**
+ * Roll usage records up by day (UTC) and by route
+ * @param days Number of days to cover, ending today
+ * @returns Totals overall, per route, and per day with each day's routes
+ */
+export async function buildUsageReport(days: number): Promise<UsageReport> {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const from = new Date(today.getTime() - (days - 1) * DAY_MS);
+
+  const records = await getUsageStore().list(from);
+
+  const total = emptyTotals();
+  const byRoute: Record<string, UsageTotals> = {};
+  const byDay = new Map<string, UsageReport['byDay'][number]>();
+
+  for (const record of records) {
+    const date = record.timestamp.slice(0, 10);
+    let day = byDay.get(date);
+    if (!day) {
+      day = { date, ...emptyTotals(), routes: {} };
+      byDay.set(date, day);
+    }
+
+    addRecord(total, record);
+    addRecord(byRoute[record.route] ??= emptyTotals(), record);
+    addRecord(day, record);
+    addRecord(day.routes[record.route] ??= emptyTotals(), record);
+  }
+
+  return {
+    from: from.toISOString().slice(0, 10),
+    to: today.toISOString().slice(0, 10),
+    total,
+    byRoute,
+    byDay: Array.from(byDay.values()).sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
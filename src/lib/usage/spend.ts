@@ -0,0 +1,96 @@
+import { createLogger } from '../logger';
+import { UsageRecord } from '../types';
+import { highestPrice } from './pricing';
+import { getUsageStore } from './index';
+
+const log = createLogger('budget');
+
+// Today's usage as the spend caps see it
+export interface DailySpend {
+  date: string; // UTC day, YYYY-MM-DD
+  requests: number;
+  usd: number;
+  clients: Map<string, { requests: number; usd: number }>;
+}
+
+// Kept on globalThis so every route bundle, and dev-mode reloads, share one total
+const globalSpend = globalThis as typeof globalThis & { __dailySpend?: Promise<DailySpend> };
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * What a record counts for against the spend caps. A model without a known
+ * price is counted at the highest price in the table, so an unpriced model
+ * can't spend without limit.
+ * @param record The usage record
+ */
+export function budgetCostOf(record: UsageRecord): number {
+  if (record.costUsd !== null) {
+    return record.costUsd;
+  }
+  const price = highestPrice();
+  return (record.promptTokens * price.prompt + record.completionTokens * price.completion) / 1000000;
+}
+
+function add(spend: DailySpend, record: UsageRecord) {
+  const cost = budgetCostOf(record);
+  const client = spend.clients.get(record.client) ?? { requests: 0, usd: 0 };
+  client.requests++;
+  client.usd += cost;
+  spend.clients.set(record.client, client);
+  spend.requests++;
+  spend.usd += cost;
+}
+
+async function load(date: string): Promise<DailySpend> {
+  const spend: DailySpend = { date, requests: 0, usd: 0, clients: new Map() };
+  const records = await getUsageStore().list(new Date(`${date}T00:00:00.000Z`));
+  for (const record of records) {
+    add(spend, record);
+  }
+  return spend;
+}
+
+/**
+ * Today's spend, overall and per client key. It is read from the usage
+ * store once a day and kept up to date by recordSpend, so checking a cap
+ * doesn't read the whole usage log. Usage saved by other server instances
+ * is only seen after a restart.
+ * @throws When the usage store can't be read
+ */
+export async function spentToday(): Promise<DailySpend> {
+  const date = today();
+  const cached = globalSpend.__dailySpend;
+  if (cached && (await cached.catch(() => null))?.date === date) {
+    return cached;
+  }
+
+  const loading = load(date);
+  globalSpend.__dailySpend = loading;
+  // A failed read is tried again by the next request
+  loading.catch(() => {
+    if (globalSpend.__dailySpend === loading) {
+      globalSpend.__dailySpend = undefined;
+    }
+  });
+  return loading;
+}
+
+/**
+ * Add a saved usage record to today's running totals. Until the totals are
+ * first read there is nothing to add to; reading them picks the record up.
+ * A record saved while the totals are being read may be counted twice,
+ * which errs on the side of the caps.
+ * @param record The record just saved
+ */
+export async function recordSpend(record: UsageRecord): Promise<void> {
+  const spend = await globalSpend.__dailySpend?.catch(() => null);
+  if (spend && spend.date === record.timestamp.slice(0, 10)) {
+    add(spend, record);
+    if (record.costUsd === null) {
+      log.warn('No price for the model, counting it at the highest known price', { model: record.model });
+    }
+  }
+}
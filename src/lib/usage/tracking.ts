@@ -0,0 +1,77 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createLogger } from '../logger';
+import { EstimationUsage, TokenUsage, UsageRecord } from '../types';
+import { costOf } from './pricing';
+import { recordSpend } from './spend';
+import { getUsageStore } from './index';
+
+const log = createLogger('usage');
+
+// Model calls made on behalf of the request being tracked
+const currentCalls = new AsyncLocalStorage<TokenUsage[]>();
+
+/**
+ * Record the tokens of a model call against the request being tracked.
+ * Calls made outside trackUsage are not recorded.
+ * @param usage Tokens the call used
+ */
+export function recordTokenUsage(usage: TokenUsage): void {
+  currentCalls.getStore()?.push(usage);
+}
+
+function summarize(calls: TokenUsage[], latencyMs: number): EstimationUsage {
+  const costs = calls.map(costOf);
+  return {
+    model: calls.length ? calls[0].model : null,
+    calls: calls.length,
+    promptTokens: calls.reduce((sum, call) => sum + call.promptTokens, 0),
+    completionTokens: calls.reduce((sum, call) => sum + call.completionTokens, 0),
+    costUsd: costs.some(cost => cost === null)
+      ? null
+      : Math.round(costs.reduce<number>((sum, cost) => sum + (cost ?? 0), 0) * 1000000) / 1000000,
+    latencyMs,
+  };
+}
+
+async function saveRecord(record: UsageRecord) {
+  try {
+    await getUsageStore().append(record);
+  } catch (error) {
+    log.error('Could not save usage record', { error });
+  }
+  // Counted against the caps even when it couldn't be saved
+  await recordSpend(record);
+}
+
+/**
+ * Run a request's work while collecting the model calls it makes, then save
+ * a usage record for the report. Failed requests are recorded too, since
+ * their calls still cost money.
+ * @param route Route name the record is filed under, e.g. "estimate-text"
+ * @param client Client key the request counts against, see clientKeyFor
+ * @param run The work to track
+ * @returns The work's result and what it cost
+ */
+export async function trackUsage<T>(
+  route: string,
+  client: string,
+  run: () => Promise<T>
+): Promise<{ result: T; usage: EstimationUsage }> {
+  const calls: TokenUsage[] = [];
+  const started = Date.now();
+
+  const finish = async (success: boolean) => {
+    const usage = summarize(calls, Date.now() - started);
+    log.info('Recorded usage', { usageRoute: route, ...usage });
+    await saveRecord({ ...usage, timestamp: new Date(started).toISOString(), route, client, success });
+    return usage;
+  };
+
+  try {
+    const result = await currentCalls.run(calls, run);
+    return { result, usage: await finish(true) };
+  } catch (error) {
+    await finish(false);
+    throw error;
+  }
+}
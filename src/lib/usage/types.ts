@@ -0,0 +1,13 @@
+import { UsageRecord } from '../types';
+
+/**
+ * Storage for usage records behind the usage report
+ */
+export interface UsageStore {
+  name: string;
+  append(record: UsageRecord): Promise<void>;
+  /** Records at or after `since`, oldest first */
+  list(since: Date): Promise<UsageRecord[]>;
+  /** Cheap local check that the store can be used, for readiness; throws when it can't */
+  check?(): Promise<void>;
+}
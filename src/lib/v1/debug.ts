@@ -0,0 +1,26 @@
+import { authenticate } from '../auth/guard';
+import { runSampledEstimation } from '../estimator';
+import { createLogger } from '../logger';
+import { getEstimationProvider } from '../providers';
+import { apiRoute, parseBody, success } from './http';
+import { imageEstimateRequestSchema } from './schemas';
+
+// Placeholder URL for mock results
+const MOCK_IMAGE_URL = "https://placehold.co/600x400?text=Mock+Analysis";
+
+const log = createLogger('api');
+
+/**
+ * `POST /api/v1/debug/mock-estimate`: the image estimate, always answered
+ * by the mock provider, so clients can be tested without calling any
+ * external API. Nothing is charged or rate limited, so it needs an admin key.
+ */
+export const mockEstimateHandler = apiRoute('mock-estimate', async request => {
+  authenticate(request, 'admin');
+
+  const { image, samples, reference } = await parseBody(request, imageEstimateRequestSchema);
+  const result = await runSampledEstimation({ kind: 'image', image, reference }, samples ?? 1, getEstimationProvider('mock'));
+
+  log.info('Sending mock response', { items: result.foodItems.length });
+  return success({ ...result, imageUrl: MOCK_IMAGE_URL });
+});
@@ -0,0 +1,184 @@
+import { authorizeEstimation } from '../auth/guard';
+import { uploadImage } from '../cloudinary';
+import { mapWithConcurrency } from '../concurrency';
+import { config } from '../config';
+import { describeEstimationError } from '../error';
+import {
+  estimateCaloriesFromBase64,
+  estimateCaloriesFromImage,
+  estimateCaloriesFromText,
+  estimateRecipe,
+  recalculateEstimation,
+  refineEstimation,
+} from '../estimator';
+import { createLogger } from '../logger';
+import { sumCalories, sumMacros } from '../macros';
+import { withRateLimitHeaders } from '../ratelimit';
+import { trackUsage } from '../usage/tracking';
+import { BatchEstimationResult, BatchItemResult } from '../types';
+import { apiRoute, checkImageSize, parseBody, requireConfigured, success, withTimeout } from './http';
+import {
+  batchEstimateRequestSchema,
+  imageEstimateRequestSchema,
+  recalculateRequestSchema,
+  recipeEstimateRequestSchema,
+  refineRequestSchema,
+  textEstimateRequestSchema,
+} from './schemas';
+
+// Placeholder URL for results whose image isn't uploaded anywhere
+export const PLACEHOLDER_IMAGE_URL = "https://placehold.co/600x400?text=Image+Analyzed+Directly";
+
+// Request timeouts: 90 seconds on the desktop, longer for slow mobile connections
+const API_TIMEOUT = 90000;
+const IOS_TIMEOUT = 150000;
+const MOBILE_TIMEOUT = 180000;
+
+// Text and recipe estimates have no image to upload or normalize
+const TEXT_TIMEOUT = 60000;
+
+const log = createLogger('api');
+
+function imageTimeoutFor(request: Request): number {
+  const userAgent = request.headers.get('user-agent') || '';
+  if (userAgent.includes('iPhone') || userAgent.includes('iPad')) {
+    return IOS_TIMEOUT;
+  }
+  return userAgent.includes('Android') ? MOBILE_TIMEOUT : API_TIMEOUT;
+}
+
+/**
+ * `POST /api/v1/estimates/image`: estimate a photo of a meal. The image is
+ * sent to the provider as is, unless `upload` asks for it to be stored on
+ * Cloudinary first.
+ * @param defaults Whether to upload when the request doesn't say
+ */
+export function imageEstimateHandler(defaults: { upload?: boolean } = {}) {
+  return withRateLimitHeaders(apiRoute('estimate-image', async request => {
+    // Mobile browsers have been the trickiest callers, so their headers help with debugging
+    log.debug('Received request for image estimation', { headers: request.headers });
+    // Callers need the estimate scope, and spend caps are checked before anything reaches the provider
+    const { client, provider } = await authorizeEstimation(request);
+    requireConfigured(provider);
+
+    const { image, samples, reference, upload = defaults.upload } = await parseBody(request, imageEstimateRequestSchema);
+    checkImageSize(image);
+    const timeoutMs = imageTimeoutFor(request);
+    log.debug('Image data received', { imageLength: image.length, timeoutMs, upload: Boolean(upload) });
+
+    const { result, usage } = await trackUsage('estimate-image', client, () => withTimeout((async () => {
+      if (!upload) {
+        return { ...await estimateCaloriesFromBase64(image, { samples, reference, provider }), imageUrl: PLACEHOLDER_IMAGE_URL };
+      }
+      const imageUrl = await uploadImage(image);
+      log.info('Image uploaded', { imageUrl });
+      return { ...await estimateCaloriesFromImage(imageUrl, { samples, reference, provider }), imageUrl };
+    })(), timeoutMs));
+
+    log.info('Image estimated', { calories: result.calories, items: result.foodItems.length });
+    return success(result, { meta: { usage } });
+  }));
+}
+
+/**
+ * `POST /api/v1/estimates/text`: estimate a meal from a written description
+ */
+export const textEstimateHandler = withRateLimitHeaders(apiRoute('estimate-text', async request => {
+  log.debug('Received request for text estimation');
+  const { client, provider } = await authorizeEstimation(request);
+  requireConfigured(provider);
+
+  const { description, samples } = await parseBody(request, textEstimateRequestSchema);
+  log.debug('Description received', { descriptionLength: description.length });
+
+  const { result, usage } = await trackUsage('estimate-text', client, () =>
+    withTimeout(estimateCaloriesFromText(description, { samples, provider }), TEXT_TIMEOUT)
+  );
+  log.info('Description estimated', { calories: result.calories, items: result.foodItems.length });
+  return success(result, { meta: { usage } });
+}));
+
+/**
+ * `POST /api/v1/estimates/recipe`: calories per serving of a recipe
+ */
+export const recipeEstimateHandler = withRateLimitHeaders(apiRoute('estimate-recipe', async request => {
+  log.debug('Received request for recipe estimation');
+  const { client, provider } = await authorizeEstimation(request);
+  requireConfigured(provider);
+
+  const { ingredients, servings } = await parseBody(request, recipeEstimateRequestSchema);
+  log.debug('Ingredients received', { ingredientsLength: ingredients.length, servings });
+
+  const { result, usage } = await trackUsage('estimate-recipe', client, () =>
+    withTimeout(estimateRecipe(ingredients, servings, provider), API_TIMEOUT)
+  );
+  log.info('Recipe estimated', { caloriesPerServing: result.calories, servings });
+  return success(result, { meta: { usage } });
+}));
+
+/**
+ * `POST /api/v1/estimates/batch`: estimate several images in one request.
+ * Each image succeeds or fails on its own; the response is 200 as long as
+ * the batch itself was valid.
+ */
+export const batchEstimateHandler = withRateLimitHeaders(apiRoute('estimate-batch', async request => {
+  log.debug('Received batch estimation request');
+  const { client, provider } = await authorizeEstimation(request);
+  requireConfigured(provider);
+
+  const { images, samples } = await parseBody(request, batchEstimateRequestSchema);
+  log.debug('Estimating batch', { images: images.length, concurrency: config.batch.concurrency });
+
+  const { result: results, usage } = await trackUsage('estimate-batch', client, () => mapWithConcurrency(images, config.batch.concurrency, async ({ id, image, reference }): Promise<BatchItemResult> => {
+    try {
+      checkImageSize(image);
+      const result = await withTimeout(estimateCaloriesFromBase64(image, { samples, reference, provider }), API_TIMEOUT);
+      return { id, success: true, data: { ...result, imageUrl: PLACEHOLDER_IMAGE_URL } };
+    } catch (error) {
+      log.warn('Batch image failed', { id, error });
+      return { id, success: false, ...describeEstimationError(error) };
+    }
+  }));
+
+  const estimations = results.flatMap(result => result.success ? [result.data] : []);
+  const data: BatchEstimationResult = {
+    results,
+    total: { calories: sumCalories(estimations), macros: sumMacros(estimations) },
+    succeeded: estimations.length,
+    failed: results.length - estimations.length,
+  };
+
+  log.info('Batch estimated', { succeeded: data.succeeded, failed: data.failed, calories: data.total.calories });
+  return success(data, { meta: { usage } });
+}));
+
+/**
+ * `POST /api/v1/estimates/refine`: re-estimate with the answers to an
+ * estimation's clarifying questions
+ */
+export const refineHandler = withRateLimitHeaders(apiRoute('refine', async request => {
+  log.debug('Received refinement request');
+  const { client, provider } = await authorizeEstimation(request);
+
+  const { estimation, answers } = await parseBody(request, refineRequestSchema);
+  requireConfigured(provider);
+  log.debug('Refining estimate', { answers: answers.length });
+
+  const { result, usage } = await trackUsage('refine', client, () => refineEstimation(estimation, answers, provider));
+  return success(result, { meta: { usage } });
+}));
+
+/**
+ * `POST /api/v1/estimates/recalculate`: recompute an estimation after the
+ * user edited a portion, or just its totals
+ */
+export const recalculateHandler = withRateLimitHeaders(apiRoute('recalculate', async request => {
+  log.debug('Received recalculation request');
+  const { client, provider } = await authorizeEstimation(request);
+
+  const { estimation, itemIndex } = await parseBody(request, recalculateRequestSchema);
+  log.debug('Recalculating', { itemIndex: itemIndex ?? 'totals' });
+
+  const { result, usage } = await trackUsage('recalculate', client, () => recalculateEstimation(estimation, itemIndex, provider));
+  return success(result, { meta: { usage } });
+}));
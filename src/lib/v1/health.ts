@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { checkHealth, checkReadiness } from '../health';
+import { createLogger, currentRequestId } from '../logger';
+import { ApiResponse, ReadinessReport } from '../types';
+import { apiRoute, success } from './http';
+
+const log = createLogger('api');
+
+/**
+ * `GET /api/health`: liveness. Answers 200 whenever the process can answer
+ * at all. Needs no credentials.
+ */
+export const healthHandler = apiRoute('health', async () => success(checkHealth()));
+
+/**
+ * `GET /api/ready`: readiness, for load balancers and deploy tooling. 200
+ * with the report when every check passes or only warns, otherwise 503
+ * with the same report as `data`. Needs no credentials, so the report
+ * names what is wrong without any secret.
+ */
+export const readinessHandler = apiRoute('ready', async () => {
+  const report = await checkReadiness();
+  if (report.status === 'ready') {
+    return success(report);
+  }
+
+  const failed = Object.entries(report.checks)
+    .filter(([, check]) => check.status === 'fail')
+    .map(([name]) => name);
+  log.warn('Not ready', { failed, checks: report.checks });
+  return NextResponse.json({
+    success: false,
+    error: `Not ready, failed checks: ${failed.join(', ')}`,
+    code: 'not_ready',
+    requestId: currentRequestId(),
+    data: report,
+  } as ApiResponse<ReadinessReport>, { status: 503 });
+});
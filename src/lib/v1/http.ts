@@ -0,0 +1,177 @@
+import { NextResponse } from 'next/server';
+import { ZodType, ZodTypeDef } from 'zod';
+import { config } from '../config';
+import { deniedResponse, isDenial } from '../auth/guard';
+import { ApiError, InvalidModelOutputError, describeEstimationError } from '../error';
+import { createLogger, currentRequestId, requestIdFor, withRequestContext } from '../logger';
+import { EstimationProvider } from '../providers';
+import { ApiResponse, ResponseMeta } from '../types';
+import { MAX_IMAGE_SIZE } from './schemas';
+
+// When the unversioned routes were deprecated, sent as their Deprecation header (RFC 9745)
+const LEGACY_DEPRECATED_AT = Date.UTC(2026, 9, 19);
+
+const log = createLogger('api');
+
+export type RouteHandler<Args extends unknown[] = []> = (request: Request, ...args: Args) => Promise<Response>;
+
+/**
+ * A successful response in the shared envelope
+ * @param data The response data
+ * @param init Status (200 unless given) and usage metadata
+ */
+export function success<T>(data: T, init: { status?: number; meta?: ResponseMeta } = {}): NextResponse {
+  const body: ApiResponse<T> = { success: true, data };
+  if (init.meta) {
+    body.meta = init.meta;
+  }
+  return NextResponse.json(body, { status: init.status ?? 200 });
+}
+
+/**
+ * Turn an error thrown by a handler into a response in the shared envelope:
+ * guard refusals keep their code and headers, ApiErrors their status, and
+ * anything else is a 500. The body carries the error code to act on and
+ * the request ID to quote.
+ * @param error The error
+ */
+export function failure(error: unknown): NextResponse {
+  const requestId = currentRequestId();
+  if (isDenial(error)) {
+    log.warn('Request denied', { code: error.code });
+    return deniedResponse(error, requestId);
+  }
+  if (error instanceof ApiError && !(error instanceof InvalidModelOutputError) && error.statusCode < 500) {
+    log.warn(`Request failed with ${error.statusCode}`, { reason: error.message });
+  } else {
+    log.error('Error processing request', { error });
+  }
+
+  const { error: message, code, statusCode } = describeEstimationError(error);
+  return NextResponse.json({ success: false, error: message, code, requestId } as ApiResponse<null>, { status: statusCode });
+}
+
+/**
+ * Wrap a handler so that whatever it throws is answered with `failure`, and
+ * everything logged while it runs carries the request's ID and route.
+ * Responses are not cached unless the handler says otherwise.
+ * @param route Name of the route in logs, e.g. "estimate-text"
+ * @param handler Handler that returns its response, or throws
+ */
+export function apiRoute<Args extends unknown[]>(route: string, handler: RouteHandler<Args>): RouteHandler<Args> {
+  return (request, ...args) => withRequestContext({ requestId: requestIdFor(request), route }, async () => {
+    let response: Response;
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      response = failure(error);
+    }
+    if (!response.headers.has('Cache-Control')) {
+      response.headers.set('Cache-Control', 'no-store');
+    }
+    return response;
+  });
+}
+
+/**
+ * Mark a legacy route's responses as deprecated in favour of its /api/v1
+ * successor, with a Sunset date once LEGACY_API_SUNSET is set
+ * @param successorFor Path of the /api/v1 route that replaces it, or a function of the request for paths with parameters
+ * @param handler The /api/v1 handler the route forwards to
+ */
+export function deprecatedRoute<Args extends unknown[]>(
+  successorFor: string | ((request: Request) => string),
+  handler: RouteHandler<Args>
+): RouteHandler<Args> {
+  return async (request, ...args) => {
+    const successor = typeof successorFor === 'string' ? successorFor : successorFor(request);
+    // Runs before the handler has set up the request's context, so the ID is passed along by hand
+    log.warn('Deprecated route called', { requestId: requestIdFor(request), path: new URL(request.url).pathname, successor });
+    const response = await handler(request, ...args);
+    response.headers.set('Deprecation', `@${Math.floor(LEGACY_DEPRECATED_AT / 1000)}`);
+    response.headers.set('Link', `<${successor}>; rel="successor-version"`);
+    if (config.api.legacySunset) {
+      response.headers.set('Sunset', config.api.legacySunset);
+    }
+    return response;
+  };
+}
+
+/**
+ * Read and validate a JSON request body
+ * @param request The incoming request
+ * @param schema Schema the body must match
+ * @returns The validated body
+ * @throws ApiError (400) when the body isn't JSON or doesn't match
+ */
+export async function parseBody<T>(request: Request, schema: ZodType<T, ZodTypeDef, unknown>): Promise<T> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (parseError) {
+    throw new ApiError('Invalid JSON in request body. Make sure the Content-Type is application/json.', 400, 'invalid_request');
+  }
+
+  const validationResult = schema.safeParse(body);
+  if (!validationResult.success) {
+    throw new ApiError('Invalid request: ' + validationResult.error.message, 400, 'invalid_request');
+  }
+  return validationResult.data;
+}
+
+/**
+ * Validate query parameters
+ * @param request The incoming request
+ * @param schema Schema the parameters must match; absent ones are undefined
+ * @returns The validated parameters
+ * @throws ApiError (400) when they don't match
+ */
+export function parseQuery<T>(request: Request, schema: ZodType<T, ZodTypeDef, unknown>): T {
+  const params: Record<string, string> = {};
+  new URL(request.url).searchParams.forEach((value, name) => {
+    params[name] = value;
+  });
+
+  const validationResult = schema.safeParse(params);
+  if (!validationResult.success) {
+    throw new ApiError('Invalid request: ' + validationResult.error.issues[0].message, 400, 'invalid_request');
+  }
+  return validationResult.data;
+}
+
+/**
+ * Refuse images over MAX_IMAGE_SIZE. Base64 size is roughly 4/3 of binary size.
+ * @param image Base64 encoded image
+ * @throws ApiError (413) when it is too large
+ */
+export function checkImageSize(image: string): void {
+  if (Math.ceil(image.length * 0.75) > MAX_IMAGE_SIZE) {
+    throw new ApiError(`Image too large. Maximum size is ${MAX_IMAGE_SIZE / (1024 * 1024)}MB.`, 413, 'image_too_large');
+  }
+}
+
+/**
+ * Refuse to estimate with a provider that is missing its configuration
+ * @param provider Provider the request would use
+ * @throws ApiError (500) when it isn't configured
+ */
+export function requireConfigured(provider: EstimationProvider): void {
+  if (!provider.isConfigured()) {
+    log.error('Estimation provider is not configured', { provider: provider.name });
+    throw new ApiError('Estimation provider not configured on the server', 500, 'provider_not_configured');
+  }
+}
+
+/**
+ * Race a promise against a timeout
+ * @param promise The work to wait for
+ * @param ms How long to wait
+ * @throws ApiError (408) when the time runs out first
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ApiError(`Request timed out after ${ms}ms`, 408, 'provider_timeout')), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
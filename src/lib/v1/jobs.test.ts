@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { SESSION_COOKIE, createSession, verifySession } from '../auth/session';
+import { getJobStore } from '../jobs';
+import { getJobHandler } from './jobs';
+import { createSessionHandler } from './session';
+
+// A session token and the owner its jobs are filed under
+function startSession(): { token: string; owner: string } {
+  const { token } = createSession();
+  return { token, owner: `session:${verifySession(token)}` };
+}
+
+async function storeJob(owner: string): Promise<string> {
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  await getJobStore().create({ id, status: 'pending', createdAt: now, updatedAt: now, owner });
+  return id;
+}
+
+async function readJob(id: string, token: string) {
+  const request = new Request(`http://localhost/api/v1/jobs/${id}`, {
+    headers: { cookie: `${SESSION_COOKIE}=${token}` },
+  });
+  const response = await getJobHandler(request, { params: Promise.resolve({ id }) });
+  return { status: response.status, body: await response.json() };
+}
+
+describe('GET /api/v1/jobs/:id', () => {
+  it('answers the session that started the job, without its owner', async () => {
+    const { token, owner } = startSession();
+    const id = await storeJob(owner);
+
+    const { status, body } = await readJob(id, token);
+    assert.equal(status, 200);
+    assert.equal(body.data.id, id);
+    assert.equal(body.data.owner, undefined);
+  });
+
+  it('refuses another session with not_job_owner', async () => {
+    const id = await storeJob(startSession().owner);
+
+    const { status, body } = await readJob(id, startSession().token);
+    assert.equal(status, 403);
+    assert.equal(body.code, 'not_job_owner');
+  });
+
+  it('answers 404 for an unknown job', async () => {
+    const { status, body } = await readJob(randomUUID(), startSession().token);
+    assert.equal(status, 404);
+    assert.equal(body.code, 'not_found');
+  });
+
+  it('still answers the session after it is renewed, as on a reload', async () => {
+    const { token, owner } = startSession();
+    const id = await storeJob(owner);
+
+    const renewal = await createSessionHandler(new Request('http://localhost/api/v1/session', {
+      method: 'POST',
+      headers: { cookie: `${SESSION_COOKIE}=${token}`, origin: 'http://localhost', host: 'localhost' },
+    }));
+    assert.equal(renewal.status, 200);
+    const renewed = /calorie_session=([^;]+)/.exec(renewal.headers.get('set-cookie') ?? '')?.[1];
+    assert.ok(renewed);
+    assert.equal(verifySession(decodeURIComponent(renewed)), verifySession(token));
+
+    const { status } = await readJob(id, decodeURIComponent(renewed));
+    assert.equal(status, 200);
+  });
+});
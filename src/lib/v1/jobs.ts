@@ -0,0 +1,54 @@
+import { authenticate, authorizeEstimation } from '../auth/guard';
+import { ApiError } from '../error';
+import { estimateCaloriesFromBase64 } from '../estimator';
+import { getJobStore } from '../jobs';
+import { jobOwner, startEstimationJob, toPublicJob } from '../jobs/runner';
+import { withRateLimitHeaders } from '../ratelimit';
+import { PLACEHOLDER_IMAGE_URL } from './estimates';
+import { apiRoute, checkImageSize, parseBody, requireConfigured, success, withTimeout } from './http';
+import { imageEstimateRequestSchema } from './schemas';
+
+// A job that runs longer than this is marked failed (150 seconds, as for iOS direct requests)
+const JOB_TIMEOUT = 150000;
+
+/**
+ * `POST /api/v1/jobs`: start an image estimation in the background. Answers
+ * right away with the job; poll `GET /api/v1/jobs/:id` for the result.
+ */
+export const createJobHandler = withRateLimitHeaders(apiRoute('jobs', async request => {
+  const { principal, client, provider } = await authorizeEstimation(request);
+  requireConfigured(provider);
+
+  // Jobs never upload, so `upload` is ignored here
+  const { image, samples, reference } = await parseBody(request, imageEstimateRequestSchema);
+  checkImageSize(image);
+
+  const job = await startEstimationJob(async () => {
+    const result = await withTimeout(estimateCaloriesFromBase64(image, { samples, reference, provider }), JOB_TIMEOUT);
+    return { ...result, imageUrl: PLACEHOLDER_IMAGE_URL };
+  }, client, jobOwner(principal));
+
+  const response = success(job, { status: 202 });
+  response.headers.set('Location', `/api/v1/jobs/${job.id}`);
+  return response;
+}));
+
+/**
+ * `GET /api/v1/jobs/:id`: report a job's status, with the result once it
+ * has succeeded. Only whoever started the job may read it. Anyone else is
+ * told so with 403 rather than 404, so a client whose session changed keeps
+ * the job instead of taking it for expired.
+ */
+export const getJobHandler = apiRoute('job', async (request: Request, { params }: { params: Promise<{ id: string }> }) => {
+  const principal = authenticate(request, 'estimate');
+  const { id } = await params;
+
+  const job = await getJobStore().get(id);
+  if (!job) {
+    throw new ApiError('Job not found. It may have expired; please start a new estimate.', 404, 'not_found');
+  }
+  if (job.owner !== jobOwner(principal)) {
+    throw new ApiError('This job was started with other credentials.', 403, 'not_job_owner');
+  }
+  return success(toPublicJob(job));
+});
@@ -0,0 +1,310 @@
+import { z, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SESSION_COOKIE } from '../auth/session';
+import { calorieEstimationSchema, scaleReferenceSchema } from '../schemas';
+import { ApiScope } from '../types';
+import {
+  batchEstimateRequestSchema,
+  batchEstimationResultSchema,
+  errorCodeSchema,
+  errorResponseSchema,
+  estimationEventSchema,
+  estimationJobSchema,
+  estimationUsageSchema,
+  imageEstimateRequestSchema,
+  recalculateRequestSchema,
+  recipeEstimateRequestSchema,
+  refineRequestSchema,
+  responseMetaSchema,
+  sessionInfoSchema,
+  textEstimateRequestSchema,
+  usageQuerySchema,
+  usageReportSchema,
+} from './schemas';
+
+type JsonSchema = Record<string, unknown>;
+
+// Named schemas, emitted once under components and referenced everywhere else
+const components: Record<string, ZodTypeAny> = {
+  CalorieEstimation: calorieEstimationSchema,
+  ScaleReference: scaleReferenceSchema,
+  EstimationUsage: estimationUsageSchema,
+  ResponseMeta: responseMetaSchema,
+  ErrorCode: errorCodeSchema,
+  Error: errorResponseSchema,
+  BatchEstimationResult: batchEstimationResultSchema,
+  EstimationJob: estimationJobSchema,
+  UsageReport: usageReportSchema,
+  SessionInfo: sessionInfoSchema,
+  EstimationEvent: estimationEventSchema,
+  ImageEstimateRequest: imageEstimateRequestSchema,
+  TextEstimateRequest: textEstimateRequestSchema,
+  RecipeEstimateRequest: recipeEstimateRequestSchema,
+  BatchEstimateRequest: batchEstimateRequestSchema,
+  RefineRequest: refineRequestSchema,
+  RecalculateRequest: recalculateRequestSchema,
+};
+
+const DEFINITION_PATH = 'components/schemas';
+
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const converted: JsonSchema = zodToJsonSchema(schema, {
+    target: 'openApi3',
+    definitions: components,
+    definitionPath: DEFINITION_PATH,
+    // Unknown keys are stripped, not refused
+    removeAdditionalStrategy: 'passthrough',
+  });
+  delete converted[DEFINITION_PATH];
+  return converted;
+}
+
+interface Operation {
+  summary: string;
+  description?: string;
+  scope: ApiScope | null; // Null for routes that need no credentials
+  rateLimited?: boolean; // Estimate routes, which also count against the spend caps
+  request?: ZodTypeAny;
+  query?: z.AnyZodObject;
+  response?: ZodTypeAny; // Data of the success envelope
+  status?: number;
+  eventStream?: boolean;
+}
+
+const operations: Record<string, Partial<Record<'get' | 'post', Operation>>> = {
+  '/estimates/image': {
+    post: {
+      summary: 'Estimate a photo of a meal',
+      scope: 'estimate',
+      rateLimited: true,
+      request: imageEstimateRequestSchema,
+      response: calorieEstimationSchema,
+    },
+  },
+  '/estimates/text': {
+    post: {
+      summary: 'Estimate a meal from a written description',
+      scope: 'estimate',
+      rateLimited: true,
+      request: textEstimateRequestSchema,
+      response: calorieEstimationSchema,
+    },
+  },
+  '/estimates/recipe': {
+    post: {
+      summary: 'Estimate calories per serving of a recipe',
+      scope: 'estimate',
+      rateLimited: true,
+      request: recipeEstimateRequestSchema,
+      response: calorieEstimationSchema,
+    },
+  },
+  '/estimates/batch': {
+    post: {
+      summary: 'Estimate several photos in one request',
+      description: 'Each image succeeds or fails on its own; the response is 200 as long as the batch itself was valid.',
+      scope: 'estimate',
+      rateLimited: true,
+      request: batchEstimateRequestSchema,
+      response: batchEstimationResultSchema,
+    },
+  },
+  '/estimates/stream': {
+    post: {
+      summary: 'Estimate a photo, streaming progress as Server-Sent Events',
+      description: 'Each event is an EstimationEvent; the last one is `result` or `error`. Problems found after the stream opened arrive as an `error` event rather than a status.',
+      scope: 'estimate',
+      rateLimited: true,
+      request: imageEstimateRequestSchema,
+      eventStream: true,
+    },
+  },
+  '/estimates/refine': {
+    post: {
+      summary: "Re-estimate with the answers to an estimation's clarifying questions",
+      scope: 'estimate',
+      rateLimited: true,
+      request: refineRequestSchema,
+      response: calorieEstimationSchema,
+    },
+  },
+  '/estimates/recalculate': {
+    post: {
+      summary: 'Recompute an estimation after a portion was edited',
+      scope: 'estimate',
+      rateLimited: true,
+      request: recalculateRequestSchema,
+      response: calorieEstimationSchema,
+    },
+  },
+  '/jobs': {
+    post: {
+      summary: 'Start a photo estimation in the background',
+      description: 'Answers with the pending job and its Location; poll it for the result.',
+      scope: 'estimate',
+      rateLimited: true,
+      request: imageEstimateRequestSchema,
+      response: estimationJobSchema,
+      status: 202,
+    },
+  },
+  '/jobs/{id}': {
+    get: {
+      summary: "Report a job's status, with the result once it has succeeded",
+      scope: 'estimate',
+      response: estimationJobSchema,
+    },
+  },
+  '/usage': {
+    get: {
+      summary: 'Token usage, cost and latency rolled up by day and by route',
+      scope: 'admin',
+      query: usageQuerySchema,
+      response: usageReportSchema,
+    },
+  },
+  '/session': {
+    post: {
+      summary: "Start a browser session for this site's own pages",
+      description: `Sets the ${SESSION_COOKIE} cookie. Refused with 403 for cross-origin requests, which need an API key.`,
+      scope: null,
+      response: sessionInfoSchema,
+    },
+  },
+  '/debug/mock-estimate': {
+    post: {
+      summary: 'Estimate a photo with the mock provider',
+      description: 'For testing clients; never calls an external API and is neither charged nor rate limited.',
+      scope: 'admin',
+      request: imageEstimateRequestSchema,
+      response: calorieEstimationSchema,
+    },
+  },
+};
+
+const errorContent = { 'application/json': { schema: { $ref: `#/${DEFINITION_PATH}/Error` } } };
+
+function errorResponse(description: string) {
+  return { description, content: errorContent };
+}
+
+function rateLimitHeaders() {
+  const integer = { schema: { type: 'integer' } };
+  return {
+    'RateLimit-Limit': { description: 'Requests the client may make in a burst', ...integer },
+    'RateLimit-Remaining': { description: 'Requests left in the burst', ...integer },
+    'RateLimit-Reset': { description: 'Seconds until the burst is full again', ...integer },
+  };
+}
+
+function toOperation(operation: Operation, path: string): JsonSchema {
+  const responses: JsonSchema = {};
+
+  if (operation.eventStream) {
+    responses['200'] = {
+      description: 'Stream of progress events',
+      headers: rateLimitHeaders(),
+      content: { 'text/event-stream': { schema: toJsonSchema(estimationEventSchema) } },
+    };
+  } else if (operation.response) {
+    const envelope = z.object({
+      success: z.literal(true),
+      data: operation.response,
+      meta: responseMetaSchema.optional(),
+    });
+    responses[String(operation.status ?? 200)] = {
+      description: 'Success',
+      ...(operation.rateLimited ? { headers: rateLimitHeaders() } : {}),
+      content: { 'application/json': { schema: toJsonSchema(envelope) } },
+    };
+  }
+
+  if (operation.request || operation.query) {
+    responses['400'] = errorResponse('Invalid request');
+  }
+  if (operation.scope) {
+    responses['401'] = errorResponse('Missing or invalid credentials');
+    responses['403'] = errorResponse(`Credentials lack the ${operation.scope} scope`);
+  } else {
+    responses['403'] = errorResponse('Cross-origin request');
+  }
+  if (path === '/jobs/{id}') {
+    responses['403'] = errorResponse(`Credentials lack the ${operation.scope} scope, or the job was started with other credentials`);
+    responses['404'] = errorResponse('No such job, or it has expired');
+  }
+  if (operation.rateLimited) {
+    responses['413'] = errorResponse('Image too large');
+    responses['429'] = {
+      description: 'Over the rate limit, or a daily spend cap or quota is used up',
+      headers: { 'Retry-After': { description: 'Seconds to wait', schema: { type: 'integer' } } },
+      content: errorContent,
+    };
+  }
+  responses['500'] = errorResponse('Server error');
+
+  return {
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    ...(operation.scope ? { security: [{ apiKey: [] }, { session: [] }] } : { security: [] }),
+    ...(operation.scope ? { 'x-scope': operation.scope } : {}),
+    ...(path.includes('{id}') ? {
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+    } : {}),
+    ...(operation.query ? {
+      parameters: Object.entries(operation.query.shape).map(([name, schema]) => ({
+        name,
+        in: 'query',
+        required: !(schema as ZodTypeAny).isOptional(),
+        schema: toJsonSchema(schema as ZodTypeAny),
+      })),
+    } : {}),
+    ...(operation.request ? {
+      requestBody: { required: true, content: { 'application/json': { schema: toJsonSchema(operation.request) } } },
+    } : {}),
+    responses,
+  };
+}
+
+/**
+ * Build the OpenAPI 3 document for /api/v1. Every schema in it is generated
+ * from the zod schemas the routes validate with, so it can't fall behind.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: JsonSchema = {};
+  for (const [path, methods] of Object.entries(operations)) {
+    const item: JsonSchema = {};
+    for (const method of ['get', 'post'] as const) {
+      const operation = methods[method];
+      if (operation) {
+        item[method] = toOperation(operation, path);
+      }
+    }
+    paths[path] = item;
+  }
+
+  const schemas = zodToJsonSchema(z.object({}), {
+    target: 'openApi3',
+    definitions: components,
+    definitionPath: DEFINITION_PATH,
+    removeAdditionalStrategy: 'passthrough',
+  })[DEFINITION_PATH as keyof object];
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Calorie Estimator API',
+      version: '1',
+      description: 'Every response uses the same envelope: `{ success, data, meta }`, or `{ success: false, error, code, requestId }` on failure, where `code` says why it failed and `error` is prose for people. Every response carries an `X-Request-Id` header, the one the caller sent when it was well formed. Operations list the scope they need as `x-scope`; admin keys may use every scope.',
+    },
+    // Relative to wherever the document is served from
+    servers: [{ url: '/api/v1' }],
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'An issued API key, see `npm run issue-api-key`' },
+        session: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE, description: 'Set by POST /session, for our own pages only' },
+      },
+    },
+  };
+}
@@ -0,0 +1,222 @@
+import { z } from 'zod';
+import { config } from '../config';
+import {
+  calorieEstimationSchema,
+  clarifyingAnswerSchema,
+  samplesSchema,
+  scaleReferenceSchema,
+} from '../schemas';
+import {
+  BatchEstimationResult,
+  ErrorCode,
+  EstimationJob,
+  EstimationUsage,
+  SessionInfo,
+  UsageReport,
+  UsageTotals,
+} from '../types';
+
+// Maximum image size in bytes (5MB), checked after validation so it can answer 413
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+// Maximum description length in characters
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+// Maximum ingredient list length in characters
+export const MAX_INGREDIENTS_LENGTH = 5000;
+
+// Largest batch a recipe may make
+export const MAX_SERVINGS = 100;
+
+// Usage report span when the request doesn't give one
+const DEFAULT_USAGE_DAYS = 30;
+
+const imageSchema = z.string()
+  .min(1, "Image is required")
+  .describe('Base64 encoded image, optionally as a data URL');
+
+// Request bodies
+
+export const imageEstimateRequestSchema = z.object({
+  image: imageSchema,
+  samples: samplesSchema,
+  reference: scaleReferenceSchema.optional(),
+  upload: z.boolean()
+    .optional()
+    .describe('Store the image on Cloudinary and return its URL as imageUrl'),
+});
+
+export const textEstimateRequestSchema = z.object({
+  description: z.string()
+    .trim()
+    .min(1, "Description is required")
+    .max(MAX_DESCRIPTION_LENGTH, `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`),
+  samples: samplesSchema,
+});
+
+export const recipeEstimateRequestSchema = z.object({
+  ingredients: z.string()
+    .trim()
+    .min(1, "Ingredients are required")
+    .max(MAX_INGREDIENTS_LENGTH, `Ingredients must be at most ${MAX_INGREDIENTS_LENGTH} characters`)
+    .describe('Ingredient list with quantities, one per line'),
+  servings: z.number()
+    .int("Servings must be a whole number")
+    .min(1, "Servings must be at least 1")
+    .max(MAX_SERVINGS, `Servings must be at most ${MAX_SERVINGS}`),
+});
+
+export const batchEstimateRequestSchema = z.object({
+  images: z.array(z.object({
+    id: z.string()
+      .trim()
+      .min(1, "Each image needs an id")
+      .max(100, "Image ids must be at most 100 characters")
+      .describe('Chosen by the client to match results to its images'),
+    image: imageSchema,
+    reference: scaleReferenceSchema.optional(),
+  }))
+    .min(1, "At least one image is required")
+    .max(config.batch.maxImages, `At most ${config.batch.maxImages} images per batch`)
+    .refine(
+      images => new Set(images.map(({ id }) => id)).size === images.length,
+      "Image ids must be unique"
+    ),
+  samples: samplesSchema,
+});
+
+export const refineRequestSchema = z.object({
+  estimation: calorieEstimationSchema,
+  answers: z.array(clarifyingAnswerSchema)
+    .min(1, "At least one answer is required")
+    .max(10, "Too many answers"),
+});
+
+export const recalculateRequestSchema = z.object({
+  estimation: calorieEstimationSchema,
+  itemIndex: z.number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe('Item whose portion changed; leave out to only recompute the totals'),
+}).refine(
+  ({ estimation, itemIndex }) => itemIndex === undefined || itemIndex < estimation.foodItems.length,
+  { message: "itemIndex is out of range", path: ['itemIndex'] }
+);
+
+export const usageQuerySchema = z.object({
+  days: z.coerce.number()
+    .int("days must be a whole number")
+    .min(1, "days must be at least 1")
+    .max(config.usage.retentionDays, `days must be at most ${config.usage.retentionDays}`)
+    .default(DEFAULT_USAGE_DAYS),
+});
+
+// Response bodies. Typed against the shared interfaces so the two can't drift apart.
+
+const macrosSchema = calorieEstimationSchema.shape.macros;
+
+export const estimationUsageSchema: z.ZodType<EstimationUsage> = z.object({
+  model: z.string().nullable(),
+  calls: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  costUsd: z.number().nullable(),
+  latencyMs: z.number(),
+});
+
+export const responseMetaSchema = z.object({
+  usage: estimationUsageSchema.optional(),
+});
+
+// Every code the server sends; network_error is the client's own
+export const errorCodeSchema: z.ZodType<Exclude<ErrorCode, 'network_error'>> = z.enum([
+  'invalid_request',
+  'unauthenticated',
+  'forbidden',
+  'not_found',
+  'not_job_owner',
+  'image_too_large',
+  'not_food',
+  'content_rejected',
+  'no_nutrition_data',
+  'rate_limited',
+  'daily_budget_exceeded',
+  'client_request_quota_exceeded',
+  'client_budget_exceeded',
+  'invalid_output',
+  'provider_timeout',
+  'provider_unavailable',
+  'provider_not_configured',
+  'upload_failed',
+  'not_ready',
+  'internal_error',
+]).describe('Why the request failed. Act on this rather than the message, which may change.');
+
+export const errorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  code: errorCodeSchema,
+  requestId: z.string().optional().describe('Matches the X-Request-Id header and the server logs, for reporting a problem'),
+});
+
+export const batchEstimationResultSchema: z.ZodType<BatchEstimationResult> = z.object({
+  results: z.array(z.discriminatedUnion('success', [
+    z.object({ id: z.string(), success: z.literal(true), data: calorieEstimationSchema }),
+    z.object({ id: z.string(), success: z.literal(false), error: z.string(), code: errorCodeSchema, statusCode: z.number().int() }),
+  ])).describe('Same order as the request'),
+  total: z.object({ calories: z.number(), macros: macrosSchema })
+    .describe('Totals over the images that succeeded'),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+});
+
+export const estimationJobSchema: z.ZodType<EstimationJob> = z.object({
+  id: z.string(),
+  status: z.enum(['pending', 'running', 'succeeded', 'failed']),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  result: calorieEstimationSchema.optional(),
+  usage: estimationUsageSchema.optional(),
+  error: z.string().optional(),
+  code: errorCodeSchema.optional().describe('Set with the error'),
+  statusCode: z.number().int().optional().describe('HTTP status the error would have had on a direct request'),
+});
+
+const usageTotalsSchema: z.ZodType<UsageTotals> = z.object({
+  requests: z.number().int(),
+  failed: z.number().int(),
+  calls: z.number().int(),
+  promptTokens: z.number().int(),
+  completionTokens: z.number().int(),
+  costUsd: z.number(),
+  unpricedRequests: z.number().int(),
+  averageLatencyMs: z.number(),
+});
+
+export const usageReportSchema: z.ZodType<UsageReport> = z.object({
+  from: z.string().describe('First day covered, YYYY-MM-DD in UTC'),
+  to: z.string(),
+  total: usageTotalsSchema,
+  byRoute: z.record(usageTotalsSchema),
+  byDay: z.array(z.intersection(
+    usageTotalsSchema,
+    z.object({ date: z.string(), routes: z.record(usageTotalsSchema) })
+  )),
+});
+
+export const sessionInfoSchema: z.ZodType<SessionInfo> = z.object({
+  expiresAt: z.string().datetime(),
+});
+
+export const estimationEventSchema = z.discriminatedUnion('stage', [
+  z.object({ stage: z.literal('received') }),
+  z.object({ stage: z.literal('normalized'), sizeKb: z.number() }),
+  z.object({ stage: z.literal('model_started'), provider: z.string(), attempt: z.number().int(), sample: z.number().int().optional() }),
+  z.object({
+    stage: z.literal('partial_items'),
+    items: z.array(z.object({ name: z.string(), calories: z.number().optional(), portion: z.string().optional() })),
+  }),
+  z.object({ stage: z.literal('result'), data: calorieEstimationSchema, meta: responseMetaSchema.optional() }),
+  z.object({ stage: z.literal('error'), error: z.string(), code: errorCodeSchema, status: z.number().int(), requestId: z.string().optional() }),
+]);
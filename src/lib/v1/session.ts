@@ -0,0 +1,28 @@
+import { config } from '../config';
+import { isSameOrigin, sessionIdOf } from '../auth/guard';
+import { SESSION_COOKIE, createSession } from '../auth/session';
+import { AuthError } from '../error';
+import { apiRoute, success } from './http';
+
+/**
+ * `POST /api/v1/session`: start a browser session for the web app, or renew
+ * the one its cookie still holds, keeping the session's id. Only our own
+ * pages get one; everyone else needs an API key.
+ */
+export const createSessionHandler = apiRoute('session', async request => {
+  if (!isSameOrigin(request)) {
+    throw new AuthError("Sessions are only available to this site's own pages. Use an API key instead.", 'forbidden');
+  }
+
+  const { token, expiresAt } = createSession(sessionIdOf(request) ?? undefined);
+  const response = success({ expiresAt });
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    // Never sent on cross-site requests, so other sites can't borrow it
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api',
+    maxAge: Math.floor(config.auth.sessionTtlMs / 1000),
+  });
+  return response;
+});
@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server';
+import { authorizeEstimation } from '../auth/guard';
+import { describeEstimationError } from '../error';
+import { estimateCaloriesFromBase64 } from '../estimator';
+import { createLogger, currentRequestId } from '../logger';
+import { EstimationProvider } from '../providers';
+import { withRateLimitHeaders } from '../ratelimit';
+import { formatEvent } from '../sse';
+import { trackUsage } from '../usage/tracking';
+import { EstimationEvent } from '../types';
+import { PLACEHOLDER_IMAGE_URL } from './estimates';
+import { apiRoute, checkImageSize, parseBody, requireConfigured, withTimeout } from './http';
+import { imageEstimateRequestSchema } from './schemas';
+
+// Request timeout (150 seconds, the longest the other image routes allow)
+const API_TIMEOUT = 150000;
+
+const log = createLogger('api');
+
+/**
+ * `POST /api/v1/estimates/stream`: streaming variant of the image estimate.
+ * Progress is sent as Server-Sent Events while the estimation runs; request
+ * problems arrive as an `error` event rather than an HTTP status, since the
+ * stream is already open. Refused credentials and spent quotas are still
+ * answered with a status.
+ */
+export const streamEstimateHandler = withRateLimitHeaders(apiRoute('estimate-stream', async request => {
+  log.debug('Received streaming estimation request');
+  const { client, provider } = await authorizeEstimation(request);
+
+  const encoder = new TextEncoder();
+  // Set once the stream ends or the client goes away; late progress is dropped
+  let closed = false;
+  // Cancelling runs outside the request's context, so its log line is tagged by hand
+  const requestId = currentRequestId();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: EstimationEvent) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatEvent(event)));
+        }
+      };
+
+      try {
+        send({ stage: 'received' });
+        await runStreamedEstimation(request, client, provider, send);
+      } catch (error) {
+        log.error('Streamed estimation failed', { error });
+        send(toErrorEvent(error));
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      log.info('Client disconnected', { requestId });
+      closed = true;
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Stop proxies such as nginx from buffering the events
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}));
+
+async function runStreamedEstimation(
+  request: Request,
+  client: string,
+  provider: EstimationProvider,
+  send: (event: EstimationEvent) => void
+) {
+  requireConfigured(provider);
+  // The stream never uploads, so `upload` is ignored here
+  const { image, samples, reference } = await parseBody(request, imageEstimateRequestSchema);
+  checkImageSize(image);
+
+  log.debug('Image data received', { imageLength: image.length });
+  const { result, usage } = await trackUsage('estimate-stream', client, () =>
+    withTimeout(estimateCaloriesFromBase64(image, { samples, reference, provider, onProgress: send }), API_TIMEOUT)
+  );
+
+  log.info('Image estimated', { calories: result.calories, items: result.foodItems.length });
+  send({ stage: 'result', data: { ...result, imageUrl: PLACEHOLDER_IMAGE_URL }, meta: { usage } });
+}
+
+function toErrorEvent(error: unknown): EstimationEvent {
+  const { error: message, code, statusCode } = describeEstimationError(error);
+  return { stage: 'error', error: message, code, status: statusCode, requestId: currentRequestId() };
+}
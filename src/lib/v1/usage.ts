@@ -0,0 +1,14 @@
+import { authenticate } from '../auth/guard';
+import { buildUsageReport } from '../usage/report';
+import { apiRoute, parseQuery, success } from './http';
+import { usageQuerySchema } from './schemas';
+
+/**
+ * `GET /api/v1/usage`: token usage, cost and latency rolled up by day and
+ * by route
+ */
+export const usageReportHandler = apiRoute('usage', async request => {
+  authenticate(request, 'admin');
+  const { days } = parseQuery(request, usageQuerySchema);
+  return success(await buildUsageReport(days));
+});
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { corsHeadersFor, requestIdFrom, REQUEST_ID_HEADER, securityHeaders } from '@/lib/headers';
+
+/**
+ * The one place response headers are set: CORS for the API, from the
+ * CORS_ALLOWED_ORIGINS allowlist, and security headers for everything.
+ * Preflights are answered here, so routes only handle their own methods.
+ * Every request gets an X-Request-Id, passed on to the route for its logs
+ * and echoed in the response.
+ */
+export function middleware(request: NextRequest) {
+  const api = request.nextUrl.pathname.startsWith('/api/');
+  const preflight = api && request.method === 'OPTIONS';
+  const origin = request.headers.get('origin');
+
+  const requestId = requestIdFrom(request.headers.get(REQUEST_ID_HEADER));
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+  // iOS wants a 200 rather than a 204. A preflight from an origin not on the
+  // allowlist gets no CORS headers, so the browser stops there.
+  const response = preflight
+    ? new NextResponse(null, { status: 200 })
+    : NextResponse.next({ request: { headers: requestHeaders } });
+
+  const headers = {
+    ...securityHeaders(api),
+    ...(api ? corsHeadersFor(origin, preflight) : {}),
+    [REQUEST_ID_HEADER]: requestId,
+  };
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+export const config = {
+  // Everything but build assets and the favicon
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};